@@ -0,0 +1,93 @@
+/**
+ * Compiles the Hunspell dictionaries listed in public/dictionaries/manifest.json into
+ * the pre-expanded word lists the spellcheck worker loads (nb.dic -> nb.words).
+ * See src/compiledDictionary.ts for the format.
+ *
+ * Runs as part of `npm run build`; run `npm run dictionaries` on its own after adding
+ * or updating a dictionary. Dictionaries whose files are missing are skipped, and lists
+ * that are already up to date are left alone.
+ */
+
+import { createHash } from 'node:crypto';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import Typo from 'typo-js';
+
+// Bump together with COMPILED_FORMAT_VERSION in src/compiledDictionary.ts
+const FORMAT_VERSION = 1;
+// The shared prefix length is stored as one character from '0' ('0' + 74 is 'z')
+const MAX_SHARED_PREFIX = 74;
+
+const DICTIONARY_DIR = join(dirname(fileURLToPath(import.meta.url)), '..', 'public', 'dictionaries');
+
+function readHeader(path) {
+  if (!existsSync(path)) return null;
+  const data = readFileSync(path, 'utf8');
+  try {
+    return JSON.parse(data.slice(0, data.indexOf('\n')));
+  } catch {
+    return null;
+  }
+}
+
+function compile(entry) {
+  const affPath = join(DICTIONARY_DIR, entry.aff);
+  const dicPath = join(DICTIONARY_DIR, entry.dic);
+  const outFile = `${entry.dic.replace(/\.dic$/, '')}.words`;
+  const outPath = join(DICTIONARY_DIR, outFile);
+
+  if (!existsSync(affPath) || !existsSync(dicPath)) {
+    console.warn(`Skipping "${entry.code}": ${entry.aff} or ${entry.dic} is missing.`);
+    return;
+  }
+
+  const affData = readFileSync(affPath, 'utf8');
+  const dicData = readFileSync(dicPath, 'utf8');
+  const source = createHash('sha256').update(affData).update('\0').update(dicData).digest('hex').slice(0, 16);
+
+  const existing = readHeader(outPath);
+  if (existing && existing.format === FORMAT_VERSION && existing.source === source) {
+    console.log(`${outFile} is up to date.`);
+    return;
+  }
+
+  const started = Date.now();
+  const typo = new Typo(entry.locale, affData, dicData);
+
+  // Only these flags are looked at when checking a word; the affix rules are already applied
+  const relevantFlags = [typo.flags.KEEPCASE, typo.flags.ONLYINCOMPOUND].filter(Boolean);
+
+  const header = {
+    format: FORMAT_VERSION,
+    locale: entry.locale,
+    source,
+    flags: typo.flags,
+    compoundRules: typo.compoundRules.map(rule => rule.source),
+    replacementTable: typo.replacementTable,
+  };
+
+  const lines = [JSON.stringify(header)];
+  let previous = '';
+  Object.keys(typo.dictionaryTable).sort().forEach(word => {
+    if (!word || /[\t\n]/.test(word)) return;
+
+    let shared = 0;
+    const maxShared = Math.min(previous.length, word.length, MAX_SHARED_PREFIX);
+    while (shared < maxShared && previous[shared] === word[shared]) shared++;
+
+    let line = String.fromCharCode(48 + shared) + word.slice(shared);
+    const flagLists = typo.dictionaryTable[word];
+    if (flagLists && flagLists.some(flags => flags.some(flag => relevantFlags.includes(flag)))) {
+      line += `\t${JSON.stringify(flagLists.map(flags => flags.filter(flag => relevantFlags.includes(flag))))}`;
+    }
+    lines.push(line);
+    previous = word;
+  });
+
+  writeFileSync(outPath, `${lines.join('\n')}\n`);
+  console.log(`Wrote ${outFile}: ${lines.length - 1} words in ${((Date.now() - started) / 1000).toFixed(1)} s.`);
+}
+
+const manifest = JSON.parse(readFileSync(join(DICTIONARY_DIR, 'manifest.json'), 'utf8'));
+manifest.languages.forEach(compile);
@@ -0,0 +1,96 @@
+/**
+ * Vite plugin that builds src/serviceWorker.ts as dist/sw.js and fills in its precache
+ * list: every file in the build and everything in public/ except the exam profiles,
+ * which teachers edit between deployments, and the .aff/.dic files of dictionaries
+ * that have a compiled word list. The version is a hash of all those files, so each
+ * deployment gets its own cache.
+ */
+
+import { createHash } from 'node:crypto';
+import { existsSync, readdirSync, readFileSync, statSync } from 'node:fs';
+import { join, relative, sep } from 'node:path';
+
+const SERVICE_WORKER_ENTRY = 'src/serviceWorker.ts';
+const SERVICE_WORKER_FILE = 'sw.js';
+const MANIFEST_PLACEHOLDER = '__PRECACHE_MANIFEST__';
+// Fetched from the network first, see src/serviceWorker.ts
+const RUNTIME_PUBLIC_DIRS = ['profiles'];
+
+// The app loads the compiled word list instead when there is one (see src/compiledDictionary.ts)
+function uncompiledSources(publicDir) {
+  const manifestPath = join(publicDir, 'dictionaries', 'manifest.json');
+  if (!existsSync(manifestPath)) return new Set();
+  const { languages } = JSON.parse(readFileSync(manifestPath, 'utf8'));
+  return new Set(languages
+    .filter(entry => existsSync(join(publicDir, 'dictionaries', `${entry.dic.replace(/\.dic$/, '')}.words`)))
+    .flatMap(entry => [`dictionaries/${entry.aff}`, `dictionaries/${entry.dic}`]));
+}
+
+function listFiles(dir) {
+  return readdirSync(dir, { recursive: true })
+    .map(file => join(dir, file))
+    .filter(path => statSync(path).isFile());
+}
+
+export default function offlinePrecache() {
+  let publicDir = '';
+  let base = '/';
+
+  return {
+    name: 'vestby-offline-precache',
+    apply: 'build',
+    // After Vite has added index.html and the worker bundles
+    enforce: 'post',
+
+    config() {
+      return {
+        build: {
+          rollupOptions: {
+            input: { index: 'index.html', sw: SERVICE_WORKER_ENTRY },
+            output: {
+              // The service worker needs a fixed name, and must sit at the root to control the whole app
+              entryFileNames: chunk => chunk.name === 'sw' ? SERVICE_WORKER_FILE : 'assets/[name]-[hash].js',
+            },
+          },
+        },
+      };
+    },
+
+    configResolved(config) {
+      publicDir = config.publicDir;
+      base = config.base;
+    },
+
+    generateBundle(_options, bundle) {
+      const serviceWorker = bundle[SERVICE_WORKER_FILE];
+      if (!serviceWorker || serviceWorker.type !== 'chunk') {
+        this.error(`${SERVICE_WORKER_FILE} is missing from the build`);
+      }
+
+      const hash = createHash('sha256');
+      const files = [];
+      Object.values(bundle).forEach(file => {
+        if (file.fileName === SERVICE_WORKER_FILE || file.fileName.endsWith('.map')) return;
+        files.push(file.fileName);
+        hash.update(file.fileName).update(file.type === 'chunk' ? file.code : file.source);
+      });
+
+      if (publicDir) {
+        const skipped = uncompiledSources(publicDir);
+        listFiles(publicDir).forEach(path => {
+          const file = relative(publicDir, path).split(sep).join('/');
+          if (file.startsWith('.') || RUNTIME_PUBLIC_DIRS.includes(file.split('/')[0]) || skipped.has(file)) return;
+          files.push(file);
+          hash.update(file).update(readFileSync(path));
+        });
+      }
+
+      const manifest = {
+        version: hash.digest('hex').slice(0, 16),
+        urls: files.sort().map(file => `${base}${file}`),
+      };
+      serviceWorker.code = serviceWorker.code.replace(MANIFEST_PLACEHOLDER, JSON.stringify(manifest));
+      this.info(`precaching ${files.length} files as version ${manifest.version}`);
+    },
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * Vite plugins for the single-file build (`npm run build:singlefile`): one HTML file with
+ * the app, the spellcheck workers, the Harper binary, the dictionaries and the fonts
+ * inlined, so the exam runs from a USB stick or the local disk (file://) without hosting.
+ *
+ * singleFileModules() swaps in the modules that embed the workers and the dictionaries;
+ * it is needed in the worker bundles too. singleFile() sets up the build and inlines
+ * the scripts, styles and public files into the HTML.
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { dirname, extname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { normalizePath } from 'vite';
+
+export const SINGLE_FILE_MODE = 'singlefile';
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+const PUBLIC_DIR = join(ROOT, 'public');
+const DICTIONARY_DIR = join(PUBLIC_DIR, 'dictionaries');
+const OUTPUT_FILE = 'vestbyprove.html';
+
+const BUNDLED_DICTIONARIES_ID = '\0vestby-bundled-dictionaries';
+// Modules replaced in the single-file build, by the module that replaces them
+const REPLACED_MODULES = {
+  [normalizePath(join(ROOT, 'src', 'workers.ts'))]: normalizePath(join(ROOT, 'src', 'inlineWorkers.ts')),
+  [normalizePath(join(ROOT, 'src', 'bundledDictionaries.ts'))]: BUNDLED_DICTIONARIES_ID,
+};
+
+const MIME_TYPES = {
+  '.otf': 'font/otf',
+  '.ttf': 'font/ttf',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+};
+
+// The manifest and, for each language, the compiled word list or else the .aff/.dic files
+function readDictionaries() {
+  const manifest = JSON.parse(readFileSync(join(DICTIONARY_DIR, 'manifest.json'), 'utf8'));
+  const files = {};
+  const missing = [];
+  manifest.languages.forEach(entry => {
+    const compiled = `${entry.dic.replace(/\.dic$/, '')}.words`;
+    const wanted = existsSync(join(DICTIONARY_DIR, compiled)) ? [compiled] : [entry.aff, entry.dic];
+    wanted.forEach(file => {
+      if (existsSync(join(DICTIONARY_DIR, file))) files[file] = readFileSync(join(DICTIONARY_DIR, file), 'utf8');
+      else missing.push(file);
+    });
+  });
+  return { manifest, files, missing };
+}
+
+export function singleFileModules() {
+  return {
+    name: 'vestby-single-file-modules',
+    // Before Vite resolves the imports itself
+    enforce: 'pre',
+
+    async resolveId(source, importer, options) {
+      if (!importer || !/\/(workers|bundledDictionaries)$/.test(source)) return null;
+      const resolved = await this.resolve(source, importer, { ...options, skipSelf: true });
+      return (resolved && REPLACED_MODULES[resolved.id]) || null;
+    },
+
+    load(id) {
+      if (id !== BUNDLED_DICTIONARIES_ID) return null;
+      const { manifest, files, missing } = readDictionaries();
+      missing.forEach(file => this.warn(`public/dictionaries/${file} is missing and is left out`));
+      return `export const bundledManifest = ${JSON.stringify(manifest)};\n`
+        + `export const bundledFiles = ${JSON.stringify(files)};\n`;
+    },
+  };
+}
+
+// Replaces references to files in public/ ("/vite.svg") with data URLs
+function inlinePublicFiles(text) {
+  return text.replace(/(["'(])\/([\w./-]+)(?=["')])/g, (match, quote, file) => {
+    const path = join(PUBLIC_DIR, file);
+    const type = MIME_TYPES[extname(file).toLowerCase()];
+    if (!type || !existsSync(path)) return match;
+    return `${quote}data:${type};base64,${readFileSync(path).toString('base64')}`;
+  });
+}
+
+// Keeps "</script>" inside the code from ending the inline script early
+const escapeInlineScript = code => code.replace(/<\/(script)/gi, '<\\/$1');
+
+export default function singleFile() {
+  return {
+    name: 'vestby-single-file',
+    apply: 'build',
+    // After Vite has written index.html
+    enforce: 'post',
+
+    config() {
+      return {
+        // The files in public/ that the app needs are inlined below
+        publicDir: false,
+        build: {
+          outDir: 'dist-singlefile',
+          assetsInlineLimit: () => true,
+          cssCodeSplit: false,
+          modulePreload: false,
+          rollupOptions: {
+            output: { inlineDynamicImports: true },
+          },
+        },
+      };
+    },
+
+    generateBundle(_options, bundle) {
+      const html = bundle['index.html'];
+      if (!html || html.type !== 'asset') this.error('index.html is missing from the build');
+
+      const bundleFile = url => {
+        const file = bundle[url.replace(/^\.?\//, '')];
+        if (!file) this.error(`${url} is referenced by index.html but missing from the build`);
+        return file;
+      };
+
+      const source = inlinePublicFiles(String(html.source))
+        .replace(/<script\b[^>]*\bsrc="([^"]+)"[^>]*><\/script>/g, (_tag, url) =>
+          `<script type="module">${escapeInlineScript(bundleFile(url).code)}</script>`)
+        .replace(/<link\b[^>]*\brel="stylesheet"[^>]*\bhref="([^"]+)"[^>]*>/g, (_tag, url) =>
+          `<style>${inlinePublicFiles(String(bundleFile(url).source))}</style>`);
+
+      Object.keys(bundle).forEach(file => delete bundle[file]);
+      this.emitFile({ type: 'asset', fileName: OUTPUT_FILE, source });
+    },
+  };
+}
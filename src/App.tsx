@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useEditor, EditorContent } from '@tiptap/react';
 import StarterKit from '@tiptap/starter-kit';
 import FontFamily from '@tiptap/extension-font-family';
@@ -16,21 +16,49 @@ import Typography from '@tiptap/extension-typography';
 import BubbleMenuExtension from '@tiptap/extension-bubble-menu';
 import {
   Bold, Italic, Underline as UnderlineIcon,
-  List, ListOrdered,
+  List, ListOrdered, Heading1, Heading2, Heading3, TextQuote, SeparatorHorizontal,
   Undo, Redo, Download, Info, CheckCircle2, AlertCircle,
   ZoomIn, ZoomOut, Search, ChevronRight, ChevronDown, X,
-  Loader2
+  Loader2, History, FileUp, BookOpen, CloudCheck, CloudOff
 } from 'lucide-react';
-import { Document, Packer, Paragraph as DocxParagraph, TextRun, AlignmentType, LevelFormat } from 'docx';
+import { Packer } from 'docx';
 import { saveAs } from 'file-saver';
 import { clsx, type ClassValue } from 'clsx';
 import { twMerge } from 'tailwind-merge';
-import { HarperExtension, HarperLintResult, harperKey } from './HarperExtension';
-import { NorwegianExtension, norwegianKey } from './NorwegianExtension';
-import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import { HarperExtension, type HarperRule } from './HarperExtension';
+import { HunspellExtension } from './HunspellExtension';
+import {
+  LintExtension, findLint, subscribeToLints,
+  type LintSource, type PositionedLint
+} from './LintExtension';
+import { explainLint } from './lintExplanations';
+import { loadAvailableDictionaries, type DictionaryEntry } from './dictionaryRegistry';
+import { segmentsInLanguage } from './languageDetection';
+import { cancelScheduledSnapshot, saveSnapshot, scheduleSnapshot, type Snapshot } from './snapshotStore';
+import { loadDocument, loadFallbackDocument, saveDocument, type SaveResult } from './documentStore';
+import SnapshotPanel from './SnapshotPanel';
+import DictionaryPanel from './DictionaryPanel';
+import HarperRulesPanel from './HarperRulesPanel';
+import { createPdfBlob } from './pdfExport';
+import { createDocxDocument } from './docxExport';
+import { createPlainText } from './txtExport';
+import { paginate, type Pagination } from './pagination';
+import { importFile, ImportError } from './fileImport';
+import type { JSONContent } from '@tiptap/core';
+import StartScreen from './StartScreen';
+import ProfileErrorScreen from './ProfileErrorScreen';
+import { registerServiceWorker, type OfflineStatus } from './offline';
+import {
+  autoHunspellLanguage, loadProfile, ProfileError,
+  type ExamProfile, type ExportField, type FontName, type SpellcheckLanguage
+} from './examProfile';
+import {
+  clearSession, createSession, getInitialSession, setActiveSession, storageKey,
+  type ExamSession
+} from './session';
 
-// Spellcheck language options
-type SpellcheckLanguage = 'en' | 'no' | 'off';
+// Autosave indicator state: a save in progress, or the outcome of the last save
+type SaveStatus = 'saving' | SaveResult;
 
 // Custom Font Size Extension
 const FontSize = Extension.create({
@@ -89,59 +117,117 @@ const getTimestamp = () => {
   return `kl${now.getHours().toString().padStart(2, '0')}.${now.getMinutes().toString().padStart(2, '0')}`;
 };
 
-const App = () => {
-  // Duplicate tab detection
-  const [isDuplicateTab, setIsDuplicateTab] = useState(false);
+const countWords = (text: string) => text.trim() ? text.trim().split(/\s+/).length : 0;
 
-  useEffect(() => {
-    // BroadcastChannel is supported in all modern browsers and SEB's Chromium engine
-    let channel: BroadcastChannel | null = null;
-    try {
-      channel = new BroadcastChannel('vestby-prove-tab');
-    } catch (e) {
-      // BroadcastChannel not supported — skip duplicate detection
-      console.warn('BroadcastChannel not supported, skipping duplicate tab detection');
-      return;
-    }
+// Literal class names so Tailwind picks them up
+const FONT_CLASSES: Record<FontName, string> = {
+  OpenDyslexic: 'font-opendyslexic',
+  Arial: 'font-arial',
+  Verdana: 'font-verdana',
+};
 
-    let isActive = true;
+type ExportFormat = 'docx' | 'pdf';
 
-    channel.onmessage = (event) => {
-      if (event.data === 'ping' && isActive) {
-        // Another tab is asking if anyone is here — reply
-        channel!.postMessage('pong');
-      } else if (event.data === 'pong' && isActive) {
-        // Another tab replied — we are the duplicate
-        setIsDuplicateTab(true);
-      }
-    };
+const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  docx: 'Word-fil',
+  pdf: 'PDF-fil',
+};
 
-    // Ask if any other tab is already open
-    channel.postMessage('ping');
+// Labels for the modes that are not Hunspell languages; those come from the dictionary manifest
+const SPELLCHECK_LABELS: Record<string, string> = {
+  en: 'Engelsk (internasjonal)',
+  auto: 'Automatisk (norsk og engelsk)',
+  off: 'Av',
+};
 
-    return () => {
-      isActive = false;
-      channel?.close();
-    };
-  }, []);
+type SpellcheckStatus = 'loading' | 'ready' | 'error';
+
+// The spellcheckers each mode runs; 'auto' runs both side by side
+const lintSources = (mode: SpellcheckLanguage): LintSource[] => {
+  if (mode === 'off') return [];
+  if (mode === 'en') return ['harper'];
+  if (mode === 'auto') return ['harper', 'hunspell'];
+  return ['hunspell'];
+};
+
+interface ExamEditorProps {
+  session: ExamSession;
+  profile: ExamProfile;
+  dictionaries: DictionaryEntry[];
+  offlineStatus: OfflineStatus;
+  onEndSession: () => void;
+}
 
-  // Spellcheck language: 'en' (Harper), 'no' (Norwegian), or 'off'
-  const [spellcheckLang, setSpellcheckLang] = useState<SpellcheckLanguage>('en');
+// Reads a JSON value stored in the active session, falling back to a default
+const loadSessionItem = <T,>(item: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(storageKey(item));
+    return raw ? JSON.parse(raw) : fallback;
+  } catch (e) {
+    console.error(`Failed to read ${item} from localStorage:`, e);
+    return fallback;
+  }
+};
+
+const saveSessionItem = (item: string, value: unknown) => {
+  try {
+    localStorage.setItem(storageKey(item), JSON.stringify(value));
+  } catch (e) {
+    console.error(`Failed to save ${item} to localStorage:`, e);
+  }
+};
 
-  const [isSaved, setIsSaved] = useState(false);
+const ExamEditor = ({ session, profile, dictionaries, offlineStatus, onEndSession }: ExamEditorProps) => {
+  // Spellcheck language: 'en' (Harper), a Hunspell language such as 'no' or 'nn', 'auto' (both), or 'off'
+  const [spellcheckLang, setSpellcheckLang] = useState<SpellcheckLanguage>(profile.defaultSpellcheck);
+  const hunspellLanguage = spellcheckLang === 'auto'
+    ? autoHunspellLanguage(profile, dictionaries.map(entry => entry.code))
+    : spellcheckLang;
+
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('saving');
+  const lastSaveResultRef = useRef<SaveResult>('saved');
   const [wordCount, setWordCount] = useState(0);
   const [showExportModal, setShowExportModal] = useState(false);
   const [showAboutModal, setShowAboutModal] = useState(false);
-  const [exportData, setExportData] = useState({ name: '', class: '', subject: '' });
+  const [showSnapshotPanel, setShowSnapshotPanel] = useState(false);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string, content: JSONContent } | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [exportData, setExportData] = useState(() => loadSessionItem('export', { name: '', class: '', subject: '' }));
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('docx');
   const [isGenerating, setIsGenerating] = useState(false);
   const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
   const [downloadComplete, setDownloadComplete] = useState(false);
   const [exportError, setExportError] = useState<string | null>(null);
   const [zoom, setZoom] = useState(100);
-  const [lintResults, setLintResults] = useState<HarperLintResult[]>([]);
-  const [ignoredSpans, setIgnoredSpans] = useState<{ start: number, end: number, text: string }[]>([]);
+  const [pagination, setPagination] = useState<Pagination>({ pageCount: 1, breaks: [] });
+  const [lintResults, setLintResults] = useState<PositionedLint[]>([]);
+  // Ignore state exported by each spellchecker, so ignores survive edits and reloads
+  const [ignoredLints, setIgnoredLints] = useState<Record<SpellcheckLanguage, string>>(() => loadSessionItem('ignored-lints', {}));
+  const [personalWords, setPersonalWords] = useState<string[]>(() => loadSessionItem('dictionary', []));
+  const [showDictionaryPanel, setShowDictionaryPanel] = useState(false);
+  // Harper's rules as the worker reports them; null until Harper has started
+  const [harperRules, setHarperRules] = useState<HarperRule[] | null>(null);
+  const [showRulesPanel, setShowRulesPanel] = useState(false);
   const [showSidebar, setShowSidebar] = useState(true);
-  const [spellcheckStatus, setSpellcheckStatus] = useState<'idle' | 'loading' | 'ready' | 'error'>('idle');
+  const [engineStatus, setEngineStatus] = useState<Partial<Record<LintSource, SpellcheckStatus>>>({});
+  const engineStatuses = Object.values(engineStatus);
+  const spellcheckStatus: SpellcheckStatus = engineStatuses.includes('error') ? 'error'
+    : engineStatuses.length > 0 && engineStatuses.every(status => status === 'ready') ? 'ready'
+      : 'loading';
+
+  // Keep export details and ignored lints with the session
+  useEffect(() => saveSessionItem('export', exportData), [exportData]);
+  useEffect(() => saveSessionItem('ignored-lints', ignoredLints), [ignoredLints]);
+  useEffect(() => saveSessionItem('dictionary', personalWords), [personalWords]);
+
+  const addPersonalWord = (word: string) => {
+    const trimmed = word.trim();
+    if (!trimmed) return;
+    setPersonalWords(prev => prev.includes(trimmed)
+      ? prev
+      : [...prev, trimmed].sort((a, b) => a.localeCompare(b, 'nb')));
+  };
 
   // Ctrl+S keyboard shortcut to open export modal
   useEffect(() => {
@@ -157,60 +243,16 @@ const App = () => {
 
   // Handle auto-save status with proper cleanup
   useEffect(() => {
-    if (!isSaved) {
-      const timeout = setTimeout(() => setIsSaved(true), 1000);
+    if (saveStatus === 'saving') {
+      const timeout = setTimeout(() => setSaveStatus(lastSaveResultRef.current), 1000);
       return () => clearTimeout(timeout);
     }
-  }, [isSaved]);
-
-  const simplifyMessage = useCallback((result: HarperLintResult) => {
-    const { category, message, suggestions } = result;
-
-    // Mapping technical terms to friendly Norwegian hints
-    const hints: Record<string, string> = {
-      // Common English phrases to translate
-      "canonical spelling is all-caps": "Sjekk om dette ordet skal ha store bokstaver.",
-      "did you mean the closed compound": "Bør dette skrives som ett ord?",
-      "closed compound": "Disse ordene bør kanskje skrives sammen.",
-      "open compound": "Disse ordene bør kanskje skrives hver for seg.",
-      "passive voice": "Prøv å skrive mer direkte (hvem gjør noe?).",
-      "determiner": "Sjekk om du mangler et ord som 'en', 'ei' eller 'et'.",
-      "split infinitive": "Prøv å ikke sette ord mellom 'å' og verbet.",
-      "verbose": "Denne setningen er litt lang. Kan den gjøres kortere?",
-      "unnecessary": "Dette ordet er kanskje ikke nødvendig.",
-      "cliché": "Dette er et fast uttrykk. Kan du si det på en annen måte?",
-      "repeated word": "Du har skrevet dette ordet to ganger på rad.",
-      "multiple spaces": "Du har brukt mer enn ett mellomrom her.",
-      "sentence case": "Sjekk om dette skal ha liten eller stor bokstav.",
-      "an uncategorized rule": "Det kan være en feil her.",
-      "avoid starting a sentence": "Prøv å starte setningen på en annen måte.",
-      "wrong quotes": "Sjekk om du har brukt riktig type anførselstegn.",
-      "sentence appears to be missing": "Denne setningen ser ufullstendig ut.",
-      "spelled correctly": "Sjekk stavemåten.",
-      "misspelling": "Mulig skrivefeil.",
-    };
+  }, [saveStatus]);
 
-    // Check for specific technical phrases in the message
-    for (const [key, hint] of Object.entries(hints)) {
-      if (message.toLowerCase().includes(key)) return hint;
-    }
 
-    // Category-based generic hints (Pedagogical approach)
-    if (category === 'Spelling') {
-      if (suggestions && suggestions.length > 0) return "Mente du en av disse?";
-      return "Er det skrevet riktig?";
-    }
-    if (category === 'Capitalization') return "Sjekk stor/liten bokstav.";
-    if (category === 'Punctuation') return "Sjekk tegnsettingen her.";
-    if (category === 'Grammar') return "Sjekk grammatikken her.";
-    if (category === 'WordChoice') return "Vurder et annet ordvalg.";
-    if (category === 'Style') return "Vurder å omformulere.";
-    if (category === 'Typo') return "Mulig skrivefeil.";
-    if (category === 'Miscellaneous') return "Sjekk dette.";
-
-    // Final fallback - return a generic message instead of English
-    return "Sjekk denne teksten.";
-  }, []);
+  const handleStatusChange = (source: LintSource) => (status: SpellcheckStatus) => {
+    setEngineStatus(prev => ({ ...prev, [source]: status }));
+  };
 
   const handleZoomIn = () => setZoom(prev => Math.min(prev + 10, 200));
   const handleZoomOut = () => setZoom(prev => Math.max(prev - 10, 50));
@@ -218,77 +260,72 @@ const App = () => {
   const editor = useEditor({
     extensions: [
       StarterKit.configure({
-        heading: false,
+        heading: { levels: [1, 2, 3] },
       }),
       TextStyle,
       FontFamily,
       FontSize,
       Typography,
+      // Collects the spellcheckers' results and draws them
+      LintExtension,
       // Conditionally load spellchecker based on language selection
-      ...(spellcheckLang === 'en' ? [HarperExtension.configure({
-        onResults: (results) => {
-          setLintResults(results);
-        },
-        onStatusChange: (status) => {
-          setSpellcheckStatus(status);
+      // In 'auto' mode each one only sees the paragraphs written in its language
+      ...(lintSources(spellcheckLang).includes('harper') ? [HarperExtension.configure({
+        words: personalWords,
+        ignored: ignoredLints.en || '',
+        onIgnoredChange: (ignored) => {
+          setIgnoredLints(prev => ({ ...prev, en: ignored }));
         },
+        onStatusChange: handleStatusChange('harper'),
+        lintConfig: profile.harperRules,
+        onRulesChange: setHarperRules,
+        segments: spellcheckLang === 'auto' ? doc => segmentsInLanguage(doc, 'en') : undefined,
       })] : []),
-      ...(spellcheckLang === 'no' ? [NorwegianExtension.configure({
-        onResults: (results) => {
-          setLintResults(results);
-        },
-        onStatusChange: (status) => {
-          setSpellcheckStatus(status);
+      ...(lintSources(spellcheckLang).includes('hunspell') ? [HunspellExtension.configure({
+        language: hunspellLanguage,
+        words: personalWords,
+        ignored: ignoredLints[hunspellLanguage] || '',
+        onIgnoredChange: (ignored) => {
+          setIgnoredLints(prev => ({ ...prev, [hunspellLanguage]: ignored }));
         },
+        onStatusChange: handleStatusChange('hunspell'),
+        segments: spellcheckLang === 'auto' ? doc => segmentsInLanguage(doc, 'no') : undefined,
       })] : []),
     ],
     immediatelyRender: false,
     shouldRerenderOnTransaction: false,
-    content: (() => {
-      try {
-        return localStorage.getItem('vestby-prove-content') || '<p></p>';
-      } catch (e) {
-        console.error('Failed to access localStorage:', e);
-        return '<p></p>';
-      }
-    })(),
+    content: loadDocument() || '<p></p>',
     onUpdate: ({ editor }) => {
       const content = editor.getHTML();
-      try {
-        localStorage.setItem('vestby-prove-content', content);
-      } catch (e) {
-        if (e instanceof DOMException && (e.name === 'QuotaExceededError' || e.name === 'NS_ERROR_DOM_QUOTA_REACHED')) {
-          console.error('LocalStorage quota exceeded! Content might not be saved.');
-          // We don't want to panic the student with a big modal, 
-          // but we should at least log it and consider a subtle UI hint if this were a production requirement.
-        } else {
-          console.error('Failed to save content to localStorage:', e);
-        }
-      }
+      saveDocument(content).then(result => {
+        lastSaveResultRef.current = result;
+        // Don't wait for the saving animation when nothing could be stored (or when recovering from that)
+        setSaveStatus(prev => (result === 'failed' || prev === 'failed') ? result : prev);
+      });
 
-      const text = editor.getText();
-      const words = text.trim() ? text.trim().split(/\s+/).length : 0;
+      const words = countWords(editor.getText());
       setWordCount(words);
 
-      setIsSaved(false);
+      // Keep a rolling history so an accidental delete never overwrites the only copy
+      scheduleSnapshot(content, words);
+
+      setSaveStatus(prev => prev === 'failed' ? prev : 'saving');
     },
     onCreate: ({ editor }) => {
-      let savedContent: string | null = null;
-      try {
-        savedContent = localStorage.getItem('vestby-prove-content');
-      } catch (e) {
-        console.error('Failed to read content from localStorage:', e);
-      }
+      const savedContent = loadDocument();
 
       if (!savedContent) {
-        editor.chain().focus().setFontFamily('OpenDyslexic').setMark('textStyle', { fontSize: '14px' }).run();
+        editor.chain().focus().setFontFamily(profile.defaultFont).setMark('textStyle', { fontSize: `${profile.defaultFontSize}px` }).run();
+      } else {
+        // Record what we recovered on load as its own version
+        saveSnapshot(savedContent, countWords(editor.getText()));
       }
     },
     editorProps: {
       attributes: {
         // Disable browser spellcheck - we use our own spellcheckers
         spellcheck: 'false',
-        class: 'font-opendyslexic outline-none',
+        class: cn(FONT_CLASSES[profile.defaultFont], 'outline-none'),
       } as any,
     },
   }, [spellcheckLang]);
@@ -296,153 +333,31 @@ const App = () => {
   // Clear lint results when switching languages to avoid showing stale errors
   useEffect(() => {
     setLintResults([]);
-    setSpellcheckStatus('loading');
+    setEngineStatus(Object.fromEntries(lintSources(spellcheckLang).map(source => [source, 'loading'])));
   }, [spellcheckLang]);
 
-  // Helper to map Harper character offsets to ProseMirror positions
-  const getPos = useCallback((charOffset: number, isEnd = false) => {
-    if (!editor) return 0;
-    const { doc } = editor.state;
-    let currentTextPos = 0;
-    let targetPos = -1;
-
-    // Optimization: If charOffset is 0, we know it's the start
-    if (charOffset === 0 && !isEnd) return 1;
-
-    try {
-      doc.descendants((node, pos) => {
-        if (targetPos !== -1) return false;
-        if (node.isText) {
-          const nodeText = node.text || "";
-          const nodeEnd = currentTextPos + nodeText.length;
-
-          if (isEnd) {
-            if (charOffset > currentTextPos && charOffset <= nodeEnd) {
-              targetPos = pos + (charOffset - currentTextPos);
-              return false;
-            }
-          } else {
-            if (charOffset >= currentTextPos && charOffset < nodeEnd) {
-              targetPos = pos + (charOffset - currentTextPos);
-              return false;
-            }
-          }
-          currentTextPos = nodeEnd;
-        }
-        return true;
-      });
-    } catch (e) {
-      console.error('Error during position mapping:', e);
-    }
-
-    // If we didn't find the position, return a safe fallback within document bounds
-    if (targetPos === -1) {
-      // Ensure we stay within [1, doc.content.size - 1] to avoid invalid position errors
-      const safePos = Math.min(Math.max(1, charOffset + 1), Math.max(1, doc.content.size - 1));
-      return safePos;
-    }
-
-    // Final safety check for ProseMirror position validity
-    return Math.min(Math.max(1, targetPos), Math.max(1, doc.content.size - 1));
-  }, [editor]);
-
-  const filteredResults = React.useMemo(() => {
-    if (!editor || spellcheckLang === 'off') return [];
-    return lintResults.filter(result => {
-      // Hide style and word choice suggestions to focus on core grammar/spelling
-      if (result.category === 'Style' || result.category === 'WordChoice') return false;
-
-      if (result.category === 'Capitalization' && result.suggestions.includes('IDE')) return false;
-
-      const start = getPos(result.span.start);
-      const end = getPos(result.span.end, true);
-      const currentText = editor.state.doc.textBetween(start, end);
-
-      return !ignoredSpans.some(ignored =>
-        ignored.start === result.span.start &&
-        ignored.end === result.span.end &&
-        ignored.text === currentText
-      );
-    });
-  }, [lintResults, ignoredSpans, editor, getPos, spellcheckLang]);
-
   const [focusedErrorKey, setFocusedErrorKey] = useState<string | null>(null);
 
-  useEffect(() => {
-    if (editor && editor.view) {
-      const { state } = editor;
-      const currentKey = spellcheckLang === 'no' ? norwegianKey : harperKey;
-
-      if (filteredResults.length === 0) {
-        const tr = state.tr.setMeta(currentKey, {
-          type: 'set-decorations',
-          decorations: DecorationSet.empty,
-        });
-        editor.view.dispatch(tr);
-        return;
-      }
-
-      const decorations: Decoration[] = [];
-
-      filteredResults.forEach((result: any) => {
-        let color = '#ef4444'; // Red for unknown
-        if (result.category === 'Typo' || result.category === 'Spelling') color = '#f97316'; // Orange
-        if (result.category === 'Grammar') color = '#3b82f6'; // Blue
-        if (result.category === 'Style') color = '#eab308'; // Yellow
-        if (result.category === 'WordChoice') color = '#22c55e'; // Green
-
-        const errorKey = `${result.span.start}-${result.span.end}`;
-        const isFocused = focusedErrorKey === errorKey;
-
-        const startPos = getPos(result.span.start);
-        const endPos = getPos(result.span.end, true);
-
-        // Validate positions before creating decoration
-        if (startPos >= 1 && endPos > startPos && endPos < state.doc.content.size) {
-          decorations.push(Decoration.inline(startPos, endPos, {
-            class: cn('harper-error', isFocused && 'harper-error-focused'),
-            // Use wavy decoration for "squiggly" effect
-            style: `text-decoration: underline wavy ${color} 2px !important; text-underline-offset: 4px !important; background-color: ${isFocused ? color + '40' : color + '15'} !important; cursor: text !important; transition: background-color 0.2s ease;`,
-          }));
-        }
-      });
-
-      const tr = state.tr.setMeta(currentKey, {
-        type: 'set-decorations',
-        decorations: DecorationSet.create(state.doc, decorations),
-      });
-      editor.view.dispatch(tr);
-    }
-  }, [filteredResults, editor, focusedErrorKey, getPos, spellcheckLang]);
-
+  // Follow the results and the focused result in the lint plugin
   useEffect(() => {
     if (!editor) return;
-
-    const handleSelectionUpdate = () => {
-      const { from } = editor.state.selection;
-
-      // Find if the cursor is within any error span
-      const result = filteredResults.find(r => {
-        const start = getPos(r.span.start);
-        const end = getPos(r.span.end, true);
-        // We check if the cursor (from) is within the start and end positions
-        return from >= start && from <= end;
-      });
-
-      if (result) {
-        const newKey = `${result.span.start}-${result.span.end}`;
-        if (focusedErrorKey !== newKey) {
-          setFocusedErrorKey(newKey);
-          setShowSidebar(true);
-        }
+    let focused: string | null = null;
+    return subscribeToLints(editor, state => {
+      setLintResults(state.results);
+      if (state.focused !== focused) {
+        focused = state.focused;
+        setFocusedErrorKey(focused);
+        // Open the sidebar when the cursor lands on an error
+        if (focused) setShowSidebar(true);
       }
-    };
+    });
+  }, [editor]);
 
-    editor.on('selectionUpdate', handleSelectionUpdate);
-    return () => {
-      editor.off('selectionUpdate', handleSelectionUpdate);
-    };
-  }, [editor, filteredResults, getPos, focusedErrorKey]);
+  // Hand dictionary changes to the running spellcheckers
+  useEffect(() => {
+    if (!editor || editor.isDestroyed) return;
+    editor.commands.setLintWords(personalWords);
+  }, [editor, personalWords]);
 
   useEffect(() => {
     if (focusedErrorKey && showSidebar) {
@@ -453,12 +368,48 @@ const App = () => {
     }
   }, [focusedErrorKey, showSidebar]);
 
+  // Recompute page breaks shortly after typing stops, and once web fonts have loaded
+  useEffect(() => {
+    if (!editor) return;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const update = () => {
+      if (editor.isDestroyed) return;
+      setPagination(paginate(editor.view.dom, {
+        baseFontSize: profile.defaultFontSize,
+        baseFontFamily: profile.defaultFont,
+      }));
+    };
+    const schedule = () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(update, 300);
+    };
+
+    schedule();
+    document.fonts?.ready.then(schedule);
+    editor.on('update', schedule);
+    return () => {
+      if (timer) clearTimeout(timer);
+      editor.off('update', schedule);
+    };
+  }, [editor, profile.defaultFontSize, profile.defaultFont]);
+
   useEffect(() => {
     if (editor) {
-      const text = editor.getText();
-      const words = text.trim() ? text.trim().split(/\s+/).length : 0;
+      const words = countWords(editor.getText());
       setWordCount(words);
-      setIsSaved(true);
+      setSaveStatus(lastSaveResultRef.current);
+
+      // localStorage has no copy if the last session ran out of quota; recover the emergency copy instead
+      if (!loadDocument()) {
+        loadFallbackDocument().then(html => {
+          if (!html || editor.isDestroyed) return;
+          editor.commands.setContent(html, { emitUpdate: false });
+          setWordCount(countWords(editor.getText()));
+          lastSaveResultRef.current = 'fallback';
+          setSaveStatus('fallback');
+        });
+      }
     }
   }, [editor]);
 
@@ -466,6 +417,18 @@ const App = () => {
   const [generatedBlob, setGeneratedBlob] = useState<Blob | null>(null);
   const exportIdRef = useRef<number>(0);
 
+  // Builds e.g. "ola-nordmann_10a_engelsk_kl10.30.docx", skipping optional fields left empty
+  const getExportFilename = (extension: string) => {
+    const parts = [exportData.name, exportData.class, exportData.subject]
+      .map(part => part.trim().replace(/\s+/g, '-'))
+      .filter(part => part.length > 0);
+    return `${[...parts, getTimestamp()].join('_')}.${extension}`.toLowerCase();
+  };
+
+  const isOptionalField = (field: ExportField) => !profile.requiredExportFields.includes(field);
+
+  const isExportDataComplete = profile.requiredExportFields.every(field => exportData[field].trim().length > 0);
+
   const handlePrepareExport = async () => {
     if (!editor) return;
     console.log('[Vestby Export] Starting export preparation...');
@@ -484,163 +447,12 @@ const App = () => {
     if (currentExportId !== exportIdRef.current) return;
 
     try {
-      const baseFontSize = 14;
-
-      // Helper function to extract text runs from a paragraph node
-      const getTextRuns = (paragraphNode: any): any[] => {
-        return paragraphNode.content?.map((child: any) => {
-          let markSize = child.marks?.find((m: any) => m.type === 'fontSize')?.attrs?.fontSize;
-          if (!markSize) {
-            markSize = child.marks?.find((m: any) => m.type === 'textStyle')?.attrs?.fontSize;
-          }
-          const finalSize = markSize ? parseInt(markSize.replace('px', '')) : baseFontSize;
-
-          return new TextRun({
-            text: child.text || '',
-            bold: child.marks?.some((m: any) => m.type === 'bold'),
-            italics: child.marks?.some((m: any) => m.type === 'italic'),
-            underline: child.marks?.some((m: any) => m.type === 'underline') ? {} : undefined,
-            size: finalSize * 2,
-            font: 'Arial',
-          });
-        }) || [new TextRun({ text: "", size: baseFontSize * 2 })];
-      };
-
-      // Recursively process TipTap nodes into docx paragraphs
-      const processNodes = (nodes: any[], listType?: 'bullet' | 'number', depth: number = 0): any[] => {
-        const paragraphs: any[] = [];
-
-        nodes?.forEach((node: any) => {
-          if (node.type === 'paragraph') {
-            // Regular paragraph or paragraph inside a list item
-            const paragraph = new DocxParagraph({
-              alignment: AlignmentType.LEFT,
-              spacing: { line: 360, before: 0, after: 120 },
-              bullet: listType === 'bullet' ? { level: depth } : undefined,
-              numbering: listType === 'number' ? { reference: 'default-numbering', level: depth } : undefined,
-              children: getTextRuns(node),
-            });
-            paragraphs.push(paragraph);
-          } else if (node.type === 'bulletList') {
-            // Process bullet list items - route through listItem handler for proper nesting
-            node.content?.forEach((listItem: any) => {
-              if (listItem.type === 'listItem') {
-                paragraphs.push(...processNodes([listItem], 'bullet', depth));
-              }
-            });
-          } else if (node.type === 'orderedList') {
-            // Process ordered list items - route through listItem handler for proper nesting
-            node.content?.forEach((listItem: any) => {
-              if (listItem.type === 'listItem') {
-                paragraphs.push(...processNodes([listItem], 'number', depth));
-              }
-            });
-          } else if (node.type === 'listItem') {
-            // Direct listItem - check for nested lists inside
-            if (node.content) {
-              node.content.forEach((childNode: any) => {
-                if (childNode.type === 'bulletList' || childNode.type === 'orderedList') {
-                  // Nested list - increase depth
-                  paragraphs.push(...processNodes([childNode], undefined, depth + 1));
-                } else {
-                  paragraphs.push(...processNodes([childNode], listType, depth));
-                }
-              });
-            }
-          } else {
-            // Fallback: try to extract text from unknown node types
-            if (node.content) {
-              paragraphs.push(...processNodes(node.content, listType, depth));
-            }
-          }
-        });
-
-        return paragraphs;
-      };
-
-      const doc = new Document({
-        numbering: {
-          config: [
-            {
-              reference: 'default-numbering',
-              levels: [
-                {
-                  level: 0,
-                  format: LevelFormat.DECIMAL,
-                  text: '%1.',
-                  alignment: AlignmentType.LEFT,
-                  style: { paragraph: { indent: { left: 720, hanging: 360 } } },
-                },
-                {
-                  level: 1,
-                  format: LevelFormat.LOWER_LETTER,
-                  text: '%2.',
-                  alignment: AlignmentType.LEFT,
-                  style: { paragraph: { indent: { left: 1440, hanging: 360 } } },
-                },
-                {
-                  level: 2,
-                  format: LevelFormat.LOWER_ROMAN,
-                  text: '%3.',
-                  alignment: AlignmentType.LEFT,
-                  style: { paragraph: { indent: { left: 2160, hanging: 360 } } },
-                },
-                {
-                  level: 3,
-                  format: LevelFormat.DECIMAL,
-                  text: '%4.',
-                  alignment: AlignmentType.LEFT,
-                  style: { paragraph: { indent: { left: 2880, hanging: 360 } } },
-                },
-                {
-                  level: 4,
-                  format: LevelFormat.LOWER_LETTER,
-                  text: '%5.',
-                  alignment: AlignmentType.LEFT,
-                  style: { paragraph: { indent: { left: 3600, hanging: 360 } } },
-                },
-                {
-                  level: 5,
-                  format: LevelFormat.LOWER_ROMAN,
-                  text: '%6.',
-                  alignment: AlignmentType.LEFT,
-                  style: { paragraph: { indent: { left: 4320, hanging: 360 } } },
-                },
-                {
-                  level: 6,
-                  format: LevelFormat.DECIMAL,
-                  text: '%7.',
-                  alignment: AlignmentType.LEFT,
-                  style: { paragraph: { indent: { left: 5040, hanging: 360 } } },
-                },
-                {
-                  level: 7,
-                  format: LevelFormat.LOWER_LETTER,
-                  text: '%8.',
-                  alignment: AlignmentType.LEFT,
-                  style: { paragraph: { indent: { left: 5760, hanging: 360 } } },
-                },
-                {
-                  level: 8,
-                  format: LevelFormat.LOWER_ROMAN,
-                  text: '%9.',
-                  alignment: AlignmentType.LEFT,
-                  style: { paragraph: { indent: { left: 6480, hanging: 360 } } },
-                },
-              ],
-            },
-          ],
-        },
-        sections: [
-          {
-            properties: {},
-            children: processNodes(editor.getJSON().content || []),
-          },
-        ],
-      });
-
-      const blob = await Packer.toBlob(doc);
-      console.log('[Vestby Export] DOCX blob created, size:', blob.size, 'bytes');
+      const content = editor.getJSON().content || [];
+      const exportOptions = { baseFontSize: profile.defaultFontSize, baseFontFamily: profile.defaultFont };
+      const blob = exportFormat === 'pdf'
+        ? await createPdfBlob(content, exportData, exportOptions)
+        : await Packer.toBlob(createDocxDocument(content, exportData, exportOptions));
+      console.log(`[Vestby Export] ${exportFormat.toUpperCase()} blob created, size:`, blob.size, 'bytes');
 
       // Store blob for potential fallback download
       setGeneratedBlob(blob);
@@ -681,8 +493,7 @@ const App = () => {
       console.warn('[Vestby Export] Fallback called but no blob available');
       return;
     }
-    const timestamp = getTimestamp();
-    const filename = `${exportData.name.replace(/\s+/g, '-')}_${exportData.class.replace(/\s+/g, '-')}_${exportData.subject.replace(/\s+/g, '-')}_${timestamp}.docx`.toLowerCase();
+    const filename = getExportFilename(exportFormat);
     console.log('[Vestby Export] Attempting iframe fallback download for:', filename);
 
     // Strategy 1: Try iframe-based download (works in some SEB versions)
@@ -738,7 +549,7 @@ const App = () => {
 
   const handleExportTxt = () => {
     if (!editor) return;
-    const text = editor.getText();
+    const text = createPlainText(editor.getJSON().content || []);
     const blob = new Blob([text], { type: 'text/plain;charset=utf-8' });
     const timestamp = getTimestamp();
     const filename = `reservekopi_${exportData.name.replace(/\s+/g, '-') || 'elev'}_${timestamp}.txt`.toLowerCase();
@@ -770,7 +581,51 @@ const App = () => {
     reader.readAsDataURL(blob);
   };
 
-  const handleCloseExportModal = () => {
+  const handleRestoreSnapshot = async (snapshot: Snapshot) => {
+    if (!editor) return;
+    // Save the current text first so restoring can itself be undone from the panel
+    await saveSnapshot(editor.getHTML(), countWords(editor.getText()));
+    editor.commands.setContent(snapshot.html);
+    setShowSnapshotPanel(false);
+    setTimeout(() => editor.chain().focus().run(), 10);
+  };
+
+  const handleImportFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so choosing the same file again still fires onChange
+    e.target.value = '';
+    if (!file || !editor) return;
+
+    try {
+      const content = await importFile(file, { fonts: profile.fonts, fontSizes: profile.fontSizes });
+      if (countWords(editor.getText()) === 0) {
+        await handleConfirmImport({ fileName: file.name, content });
+      } else {
+        setPendingImport({ fileName: file.name, content });
+      }
+    } catch (error) {
+      console.error('[Vestby Import] Import failed:', error);
+      setImportError(error instanceof ImportError ? error.message : 'Noe gikk galt da filen skulle åpnes.');
+    }
+  };
+
+  const handleConfirmImport = async (pending: { fileName: string, content: JSONContent }) => {
+    if (!editor) return;
+    // Keep the current text as a version so the import can be undone from the restore panel
+    await saveSnapshot(editor.getHTML(), countWords(editor.getText()));
+    editor.commands.setContent(pending.content);
+    setPendingImport(null);
+    setTimeout(() => editor.chain().focus().run(), 10);
+  };
+
+  const handleCloseExportModal = async () => {
+    // Teacher-configured sessions leave nothing behind once the file has been saved
+    if (downloadComplete && session.clearAfterExport) {
+      cancelScheduledSnapshot();
+      await clearSession(session.code);
+      onEndSession();
+      return;
+    }
     setShowExportModal(false);
     setDownloadComplete(false);
     setGeneratedBlob(null);
@@ -788,26 +643,6 @@ const App = () => {
 
   if (!editor) return null;
 
-  // Block duplicate tabs from interacting with the app
-  if (isDuplicateTab) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-gray-900 p-8">
-        <div className="bg-white rounded-2xl shadow-2xl p-10 max-w-lg w-full text-center space-y-6">
-          <div className="text-6xl">⚠️</div>
-          <h1 className="text-2xl font-bold text-gray-800">
-            Skriveprogrammet er allerede åpent
-          </h1>
-          <p className="text-gray-600 leading-relaxed">
-            Lukk denne fanen og gå tilbake til det andre vinduet for å fortsette å skrive.
-          </p>
-          <p className="text-xs text-gray-400">
-            Hvorfor? Fordi ellers funker ikke sikkerhetskopieringen.
-          </p>
-        </div>
-      </div>
-    );
-  }
-
   return (
     <div className="min-h-screen flex flex-col font-arial h-screen overflow-hidden">
       {/* Toolbar */}
@@ -818,16 +653,30 @@ const App = () => {
             className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors font-medium shadow-sm whitespace-nowrap"
           >
             <Download size={18} />
-            Lagre til Word (.docx)
+            Lagre besvarelse
           </button>
           <div className="flex items-center gap-2 text-xs text-gray-500 bg-gray-50 px-3 py-1.5 rounded-full border border-gray-100">
             <span className="text-gray-400 font-medium">Sikkerhetskopi</span>
             <div className="flex items-center">
-              {isSaved ? (
+              {saveStatus === 'saved' ? (
                 <div
                   className="w-2.5 h-2.5 rounded-full bg-green-500 shadow-[0_0_5px_rgba(34,197,94,0.4)] transition-all duration-500"
                   title="Alt er lagret lokalt"
                 />
+              ) : saveStatus === 'fallback' ? (
+                <div
+                  className="w-2.5 h-2.5 rounded-full bg-orange-500 shadow-[0_0_5px_rgba(249,115,22,0.4)] transition-all duration-500"
+                  title="Nettleserens vanlige lager er fullt. Teksten lagres i et reservelager."
+                />
+              ) : saveStatus === 'failed' ? (
+                <button
+                  onClick={() => setShowExportModal(true)}
+                  className="flex items-center gap-1.5 text-red-600 font-bold"
+                  title="Teksten kan ikke lagres i nettleseren. Lagre til Word nå!"
+                >
+                  <div className="w-2.5 h-2.5 rounded-full bg-red-500 animate-pulse shadow-[0_0_5px_rgba(239,68,68,0.6)]" />
+                  Ikke lagret!
+                </button>
               ) : (
                 <div
                   className="w-2.5 h-2.5 rounded-full bg-amber-400 animate-pulse shadow-[0_0_5px_rgba(251,191,36,0.4)] transition-all duration-500"
@@ -867,11 +716,11 @@ const App = () => {
             <select
               onChange={(e) => editor.chain().focus().setFontFamily(e.target.value).run()}
               className="p-1 rounded border border-gray-200 text-sm outline-none bg-white"
-              value={editor.getAttributes('textStyle').fontFamily || 'OpenDyslexic'}
+              value={editor.getAttributes('textStyle').fontFamily || profile.defaultFont}
             >
-              <option value="OpenDyslexic">OpenDyslexic</option>
-              <option value="Arial">Arial</option>
-              <option value="Verdana">Verdana</option>
+              {profile.fonts.map(font => (
+                <option key={font} value={font}>{font}</option>
+              ))}
             </select>
 
             <select
@@ -880,9 +729,9 @@ const App = () => {
                 editor.chain().focus().setMark('textStyle', { fontSize: `${size}px` }).run();
               }}
               className="p-1 rounded border border-gray-200 text-sm outline-none bg-white"
-              value={editor.getAttributes('textStyle').fontSize?.replace('px', '') || '14'}
+              value={editor.getAttributes('textStyle').fontSize?.replace('px', '') || String(profile.defaultFontSize)}
             >
-              {[12, 14, 16, 18, 20, 24, 30, 36].map(size => (
+              {profile.fontSizes.map(size => (
                 <option key={size} value={size}>{size}</option>
               ))}
             </select>
@@ -925,6 +774,44 @@ const App = () => {
             </button>
           </div>
 
+          <div className="flex items-center gap-1 border-r pr-2 mr-2 border-gray-200">
+            <button
+              onClick={() => editor.chain().focus().toggleHeading({ level: 1 }).run()}
+              className={cn("p-2 rounded hover:bg-gray-100 transition-colors", editor.isActive('heading', { level: 1 }) && "bg-blue-100 text-blue-600")}
+              title="Overskrift 1"
+            >
+              <Heading1 size={18} />
+            </button>
+            <button
+              onClick={() => editor.chain().focus().toggleHeading({ level: 2 }).run()}
+              className={cn("p-2 rounded hover:bg-gray-100 transition-colors", editor.isActive('heading', { level: 2 }) && "bg-blue-100 text-blue-600")}
+              title="Overskrift 2"
+            >
+              <Heading2 size={18} />
+            </button>
+            <button
+              onClick={() => editor.chain().focus().toggleHeading({ level: 3 }).run()}
+              className={cn("p-2 rounded hover:bg-gray-100 transition-colors", editor.isActive('heading', { level: 3 }) && "bg-blue-100 text-blue-600")}
+              title="Overskrift 3"
+            >
+              <Heading3 size={18} />
+            </button>
+            <button
+              onClick={() => editor.chain().focus().toggleBlockquote().run()}
+              className={cn("p-2 rounded hover:bg-gray-100 transition-colors", editor.isActive('blockquote') && "bg-blue-100 text-blue-600")}
+              title="Sitat"
+            >
+              <TextQuote size={18} />
+            </button>
+            <button
+              onClick={() => editor.chain().focus().setHorizontalRule().run()}
+              className="p-2 rounded hover:bg-gray-100 transition-colors"
+              title="Skillelinje"
+            >
+              <SeparatorHorizontal size={18} />
+            </button>
+          </div>
+
           <div className="flex items-center gap-1">
             <button
               onClick={() => editor.chain().focus().undo().run()}
@@ -942,6 +829,27 @@ const App = () => {
             >
               <Redo size={18} />
             </button>
+            <button
+              onClick={() => setShowSnapshotPanel(true)}
+              className="p-2 rounded hover:bg-gray-100 transition-colors"
+              title="Gjenopprett tidligere versjon"
+            >
+              <History size={18} />
+            </button>
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="p-2 rounded hover:bg-gray-100 transition-colors"
+              title="Åpne fil (.docx eller .txt)"
+            >
+              <FileUp size={18} />
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".docx,.txt,application/vnd.openxmlformats-officedocument.wordprocessingml.document,text/plain"
+              className="hidden"
+              onChange={handleImportFileSelected}
+            />
           </div>
         </div>
 
@@ -961,9 +869,9 @@ const App = () => {
             ) : (
               <Search size={18} />
             )}
-            {filteredResults.length > 0 && (
+            {lintResults.length > 0 && (
               <span className="bg-red-500 text-white text-[10px] px-1.5 py-0.5 rounded-full min-w-[18px] text-center">
-                {filteredResults.length}
+                {lintResults.length}
               </span>
             )}
           </button>
@@ -985,14 +893,14 @@ const App = () => {
             }}
           >
             <div className="hidden md:block">
-              {[...Array(10)].map((_, i) => (
-                <div
-                  key={i}
-                  className="page-label"
-                  style={{ top: `${562 + (i * 1124) + 32}px` }}
-                >
-                  Side {i + 1}
-                </div>
+              {/* The editor sits 2rem (32px) below this wrapper; page 1 starts after its 2cm (75px) padding */}
+              {[75, ...pagination.breaks].map((top, i) => (
+                <React.Fragment key={i}>
+                  {i > 0 && <div className="page-break-line" style={{ top: `${top + 32}px` }} />}
+                  <div className="page-label" style={{ top: `${top + 32}px` }}>
+                    Side {i + 1}
+                  </div>
+                </React.Fragment>
               ))}
             </div>
             <EditorContent editor={editor} />
@@ -1005,21 +913,30 @@ const App = () => {
             <div className="p-4 border-b border-gray-200 flex justify-between items-center bg-gray-50">
               <h2 className="font-bold text-gray-800 flex items-center gap-2">
                 Språkfeil
-                {filteredResults.length > 0 && (
+                {lintResults.length > 0 && (
                   <span className="text-xs font-normal text-gray-500">
-                    ({filteredResults.length})
+                    ({lintResults.length})
                   </span>
                 )}
               </h2>
-              <button
-                onClick={() => setShowSidebar(false)}
-                className="p-1 hover:bg-gray-200 rounded-md text-gray-400"
-              >
-                <X size={16} />
-              </button>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => setShowDictionaryPanel(true)}
+                  className="p-1 hover:bg-gray-200 rounded-md text-gray-400"
+                  title="Min ordliste"
+                >
+                  <BookOpen size={16} />
+                </button>
+                <button
+                  onClick={() => setShowSidebar(false)}
+                  className="p-1 hover:bg-gray-200 rounded-md text-gray-400"
+                >
+                  <X size={16} />
+                </button>
+              </div>
             </div>
             <div className="flex-1 overflow-y-auto p-4 space-y-3">
-              {spellcheckStatus === 'loading' || spellcheckStatus === 'idle' ? (
+              {spellcheckStatus === 'loading' ? (
                 <div className="flex flex-col items-center justify-center h-full text-gray-400 text-center space-y-4">
                   <Loader2 size={48} className="text-blue-100 animate-spin" />
                   <div className="space-y-1">
@@ -1035,101 +952,128 @@ const App = () => {
                     <p className="text-xs text-red-400">Prøv å laste siden på nytt.</p>
                   </div>
                 </div>
-              ) : filteredResults.length === 0 ? (
+              ) : lintResults.length === 0 ? (
                 <div className="flex flex-col items-center justify-center h-full text-gray-400 text-center space-y-2">
                   <CheckCircle2 size={48} className="text-green-100" />
                   <p>Ingen feil funnet</p>
                 </div>
               ) : (
-                filteredResults.map((result, idx) => (
-                  <div
-                    key={idx}
-                    data-error-key={`${result.span.start}-${result.span.end}`}
-                    className={cn(
-                      "group border border-gray-200 rounded-lg overflow-hidden hover:border-blue-300 hover:shadow-md transition-all bg-white cursor-pointer",
-                      focusedErrorKey === `${result.span.start}-${result.span.end}` && "border-blue-500 ring-1 ring-blue-500 shadow-sm bg-blue-50/20"
-                    )}
-                    onClick={() => {
-                      setFocusedErrorKey(`${result.span.start}-${result.span.end}`);
-                      const start = getPos(result.span.start);
-                      const end = getPos(result.span.end, true);
-                      editor.chain().focus().setTextSelection({ from: start, to: end }).run();
-                    }}
-                  >
-                    <div className="flex justify-between items-center p-3 bg-white group-hover:bg-blue-50/30 transition-colors">
-                      <div className="flex items-center gap-2">
-                        <div className={cn(
-                          "w-1.5 h-6 rounded-full",
-                          result.category === 'Spelling' ? "bg-red-500" :
-                            result.category === 'Typo' ? "bg-orange-500" :
-                              result.category === 'Grammar' ? "bg-blue-500" :
-                                result.category === 'Style' ? "bg-yellow-500" :
-                                  result.category === 'WordChoice' ? "bg-green-500" :
-                                    "bg-gray-400",
-                          focusedErrorKey === `${result.span.start}-${result.span.end}` && "ring-2 ring-offset-1 ring-blue-400"
-                        )} />
-                        <span className="text-sm font-bold text-gray-700">
-                          {result.category === 'Spelling' ? 'Stavefeil' :
-                            result.category === 'Grammar' ? 'Grammatikk' :
-                              result.category === 'Capitalization' ? 'Stor bokstav' :
-                                result.category === 'Punctuation' ? 'Tegnsetting' :
-                                  result.category === 'WordChoice' ? 'Ordvalg' :
-                                    result.category === 'Style' ? 'Stil' :
-                                      result.category === 'Typo' ? 'Skrivefeil' :
-                                        result.category === 'Miscellaneous' ? 'Annet' :
-                                          result.category}
-                        </span>
-                      </div>
-                      <div className="flex items-center gap-2">
-                        <button
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            const start = getPos(result.span.start);
-                            const end = getPos(result.span.end, true);
-                            setIgnoredSpans(prev => [...prev, {
-                              start: result.span.start,
-                              end: result.span.end,
-                              text: editor.state.doc.textBetween(start, end)
-                            }]);
-                            // Return focus to editor after ignoring
-                            setTimeout(() => editor.chain().focus().run(), 10);
-                          }}
-                          className="text-[10px] bg-red-50 text-red-600 px-2 py-1 rounded font-bold uppercase tracking-wider hover:bg-red-100 transition-colors"
-                        >
-                          Ignorer
-                        </button>
+                lintResults.map((result) => {
+                  const explanation = explainLint(result);
+                  return (
+                    <div
+                      key={result.id}
+                      data-error-key={result.id}
+                      className={cn(
+                        "group border border-gray-200 rounded-lg overflow-hidden hover:border-blue-300 hover:shadow-md transition-all bg-white cursor-pointer",
+                        focusedErrorKey === result.id && "border-blue-500 ring-1 ring-blue-500 shadow-sm bg-blue-50/20"
+                      )}
+                      onClick={() => {
+                        editor.chain().focus().focusLint(result.id).run();
+                      }}
+                    >
+                      <div className="flex justify-between items-center p-3 bg-white group-hover:bg-blue-50/30 transition-colors">
+                        <div className="flex items-center gap-2">
+                          <div className={cn(
+                            "w-1.5 h-6 rounded-full",
+                            result.category === 'Spelling' ? "bg-red-500" :
+                              result.category === 'Typo' ? "bg-orange-500" :
+                                result.category === 'Grammar' ? "bg-blue-500" :
+                                  result.category === 'Style' ? "bg-yellow-500" :
+                                    result.category === 'WordChoice' ? "bg-green-500" :
+                                      result.category === 'Capitalization' ? "bg-indigo-500" :
+                                        result.category === 'Punctuation' ? "bg-purple-500" :
+                                          result.category === 'Repetition' ? "bg-teal-500" :
+                                            result.category === 'Formatting' ? "bg-slate-500" :
+                                              "bg-gray-400",
+                            focusedErrorKey === result.id && "ring-2 ring-offset-1 ring-blue-400"
+                          )} />
+                          <span className="text-sm font-bold text-gray-700">
+                            {result.category === 'Spelling' ? 'Stavefeil' :
+                              result.category === 'Grammar' ? 'Grammatikk' :
+                                result.category === 'Capitalization' ? 'Stor bokstav' :
+                                  result.category === 'Punctuation' ? 'Tegnsetting' :
+                                    result.category === 'WordChoice' ? 'Ordvalg' :
+                                      result.category === 'Style' ? 'Stil' :
+                                        result.category === 'Typo' ? 'Skrivefeil' :
+                                          result.category === 'Miscellaneous' ? 'Annet' :
+                                            result.category === 'Repetition' ? 'Gjentakelse' :
+                                              result.category === 'Formatting' ? 'Formatering' :
+                                                result.category}
+                          </span>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {result.category === 'Spelling' && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                const lint = findLint(editor.state, result.id);
+                                if (lint) addPersonalWord(editor.state.doc.textBetween(lint.from, lint.to));
+                                setTimeout(() => editor.chain().focus().run(), 10);
+                              }}
+                              className="text-[10px] bg-blue-50 text-blue-600 px-2 py-1 rounded font-bold uppercase tracking-wider hover:bg-blue-100 transition-colors"
+                              title="Ordet blir godtatt i resten av prøven"
+                            >
+                              Legg til i ordlisten
+                            </button>
+                          )}
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              editor.commands.ignoreLint(result.id);
+                              // Return focus to editor after ignoring
+                              setTimeout(() => editor.chain().focus().run(), 10);
+                            }}
+                            className="text-[10px] bg-red-50 text-red-600 px-2 py-1 rounded font-bold uppercase tracking-wider hover:bg-red-100 transition-colors"
+                          >
+                            Ignorer
+                          </button>
+                        </div>
                       </div>
-                    </div>
 
-                    <div className="px-3 pb-3 pt-1">
-                      <p className="text-sm text-gray-600 mb-3 leading-relaxed">
-                        {simplifyMessage(result)}
-                      </p>
-                      <div className="flex flex-wrap items-center gap-2">
-                        {result.suggestions.length > 0 && (
-                          <div className="flex flex-wrap gap-2 w-full">
-                            {result.suggestions.slice(0, 3).map((suggestion, sIdx) => (
-                              <button
-                                key={sIdx}
-                                onClick={(e) => {
-                                  e.stopPropagation();
-                                  const start = getPos(result.span.start);
-                                  const end = getPos(result.span.end, true);
-                                  editor.chain().focus().insertContentAt({ from: start, to: end }, suggestion).run();
-                                  // Ensure focus is back in the editor after applying suggestion
-                                  setTimeout(() => editor.chain().focus().run(), 10);
-                                }}
-                                className="flex-1 text-sm bg-green-600 text-white px-3 py-2 rounded-md hover:bg-green-700 transition-all font-bold shadow-sm text-center"
-                              >
-                                {suggestion}
-                              </button>
-                            ))}
+                      <div className="px-3 pb-3 pt-1">
+                        <p className="text-sm text-gray-600 mb-3 leading-relaxed">
+                          {explanation.short}
+                        </p>
+                        {focusedErrorKey === result.id && (
+                          <div className="text-xs text-gray-500 mb-3 leading-relaxed space-y-1">
+                            <p>{explanation.long}</p>
+                            {explanation.example && (
+                              <p>
+                                <span className="line-through text-red-500">{explanation.example.wrong}</span>
+                                {' → '}
+                                <span className="text-green-700">{explanation.example.right}</span>
+                              </p>
+                            )}
                           </div>
                         )}
+                        <div className="flex flex-wrap items-center gap-2">
+                          {result.suggestions.length > 0 && (
+                            <div className="flex flex-wrap gap-2 w-full">
+                              {result.suggestions.slice(0, 3).map((suggestion, sIdx) => (
+                                <button
+                                  key={sIdx}
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    // Positions from the plugin, since edits may have moved the result
+                                    const lint = findLint(editor.state, result.id);
+                                    if (!lint) return;
+                                    editor.chain().focus().insertContentAt({ from: lint.from, to: lint.to }, suggestion).run();
+                                    // Ensure focus is back in the editor after applying suggestion
+                                    setTimeout(() => editor.chain().focus().run(), 10);
+                                  }}
+                                  className="flex-1 text-sm bg-green-600 text-white px-3 py-2 rounded-md hover:bg-green-700 transition-all font-bold shadow-sm text-center"
+                                >
+                                  {suggestion}
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                        </div>
                       </div>
                     </div>
-                  </div>
-                ))
+                  );
+                })
               )}
             </div>
           </aside>
@@ -1139,8 +1083,32 @@ const App = () => {
       {/* Footer Info */}
       <footer className="fixed bottom-0 left-0 right-0 bg-white/80 backdrop-blur-sm border-t border-gray-200 px-6 py-2 flex justify-between items-center text-sm text-gray-600 z-20">
         <div className="flex items-center gap-6">
+          <div className="text-gray-400">
+            Prøvekode: <span className="font-mono font-medium text-gray-600">{session.code}</span>
+            {profile.title && <span className="ml-2 text-gray-500">{profile.title}</span>}
+          </div>
+          <div className="h-4 w-[1px] bg-gray-300" />
           <div>
+            Sider: <span className="font-bold">{pagination.pageCount}</span>
+            <span className="mx-2 text-gray-300">·</span>
             Antall ord: <span className="font-bold">{wordCount}</span>
+            {profile.wordTarget && (
+              <span
+                className={cn(
+                  "ml-2 text-xs",
+                  profile.wordTarget.min !== null && wordCount < profile.wordTarget.min ? "text-amber-600" :
+                    profile.wordTarget.max !== null && wordCount > profile.wordTarget.max ? "text-red-600" :
+                      "text-green-600"
+                )}
+                title="Ordmål for prøven"
+              >
+                ({profile.wordTarget.min !== null && profile.wordTarget.max !== null
+                  ? `mål: ${profile.wordTarget.min}–${profile.wordTarget.max}`
+                  : profile.wordTarget.min !== null
+                    ? `mål: minst ${profile.wordTarget.min}`
+                    : `mål: maks ${profile.wordTarget.max}`})
+              </span>
+            )}
           </div>
           <div className="h-4 w-[1px] bg-gray-300" />
           <div className="flex items-center gap-2">
@@ -1154,11 +1122,36 @@ const App = () => {
                 spellcheckLang !== 'off' ? "text-blue-600" : "text-gray-400"
               )}
             >
-              <option value="en">Engelsk (internasjonal)</option>
-              <option value="no">Norsk (Bokmål)</option>
-              <option value="off">Av</option>
+              {profile.spellcheckModes.map(mode => (
+                <option key={mode} value={mode}>
+                  {SPELLCHECK_LABELS[mode] || dictionaries.find(d => d.code === mode)?.label || mode}
+                </option>
+              ))}
             </select>
           </div>
+          {offlineStatus !== 'unsupported' && (
+            <>
+              <div className="h-4 w-[1px] bg-gray-300" />
+              {offlineStatus === 'preparing' && (
+                <div className="flex items-center gap-1.5 text-gray-400" title="Laster ned prøven, ordlistene og skrifttypene slik at de kan åpnes uten nett">
+                  <Loader2 size={14} className="animate-spin" />
+                  <span>Gjør klar for bruk uten nett</span>
+                </div>
+              )}
+              {offlineStatus === 'ready' && (
+                <div className="flex items-center gap-1.5 text-green-600" title="Prøven kan lastes inn på nytt selv om nettet faller ut">
+                  <CloudCheck size={14} />
+                  <span>Klar uten nett</span>
+                </div>
+              )}
+              {offlineStatus === 'failed' && (
+                <div className="flex items-center gap-1.5 text-amber-600" title="Prøven kunne ikke lagres for bruk uten nett. Ikke lukk vinduet hvis nettet faller ut.">
+                  <CloudOff size={14} />
+                  <span>Ikke klar uten nett</span>
+                </div>
+              )}
+            </>
+          )}
         </div>
         <button
           onClick={() => setShowAboutModal(true)}
@@ -1182,7 +1175,9 @@ const App = () => {
             <h2 className="text-2xl font-bold mb-6 text-gray-800">Lagre besvarelse</h2>
             <div className="space-y-4">
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Navn</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Navn{isOptionalField('name') && <span className="font-normal text-gray-400"> (valgfritt)</span>}
+                </label>
                 <input
                   type="text"
                   className="w-full p-3 border border-gray-300 rounded-lg outline-none focus:ring-2 focus:ring-blue-500 transition-all lowercase"
@@ -1196,7 +1191,9 @@ const App = () => {
                 />
               </div>
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Klasse</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Klasse{isOptionalField('class') && <span className="font-normal text-gray-400"> (valgfritt)</span>}
+                </label>
                 <input
                   type="text"
                   className="w-full p-3 border border-gray-300 rounded-lg outline-none focus:ring-2 focus:ring-blue-500 transition-all lowercase"
@@ -1209,7 +1206,9 @@ const App = () => {
                 />
               </div>
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Fag</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Fag{isOptionalField('subject') && <span className="font-normal text-gray-400"> (valgfritt)</span>}
+                </label>
                 <input
                   type="text"
                   className="w-full p-3 border border-gray-300 rounded-lg outline-none focus:ring-2 focus:ring-blue-500 transition-all lowercase"
@@ -1221,6 +1220,29 @@ const App = () => {
                   }}
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Filtype</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {(['docx', 'pdf'] as ExportFormat[]).map(format => (
+                    <button
+                      key={format}
+                      onClick={() => {
+                        setExportFormat(format);
+                        setDownloadUrl(null);
+                        setDownloadComplete(false);
+                      }}
+                      className={cn(
+                        "px-3 py-2 rounded-lg border-2 text-sm font-medium transition-colors",
+                        exportFormat === format
+                          ? "border-blue-600 bg-blue-50 text-blue-700"
+                          : "border-gray-200 text-gray-500 hover:border-gray-300"
+                      )}
+                    >
+                      {format === 'docx' ? 'Word (.docx)' : 'PDF (.pdf)'}
+                    </button>
+                  ))}
+                </div>
+              </div>
             </div>
 
             <div className="mt-8 space-y-3">
@@ -1229,7 +1251,7 @@ const App = () => {
                 <div className="relative">
                   <button
                     onClick={handlePrepareExport}
-                    disabled={!exportData.name || !exportData.class || !exportData.subject || isGenerating || !!downloadUrl}
+                    disabled={!isExportDataComplete || isGenerating || !!downloadUrl}
                     className={cn(
                       "w-full px-4 py-4 rounded-lg transition-all font-medium flex items-center justify-center gap-2 border-2",
                       !downloadUrl
@@ -1251,7 +1273,7 @@ const App = () => {
                     ) : downloadUrl ? (
                       "Filen er klargjort"
                     ) : (
-                      "Gjør klar Word-fil"
+                      `Gjør klar ${EXPORT_FORMAT_LABELS[exportFormat]}`
                     )}
                     {downloadUrl && <CheckCircle2 size={18} className="text-green-500 ml-auto" />}
                   </button>
@@ -1291,12 +1313,17 @@ const App = () => {
                       <p className="text-sm font-normal text-green-600">
                         Filen ligger nå i din nedlastingsmappe.
                       </p>
+                      {session.clearAfterExport && (
+                        <p className="text-xs font-normal text-green-700 text-center">
+                          Teksten slettes fra denne maskinen når du lukker dette vinduet.
+                        </p>
+                      )}
                     </div>
                   ) : (
                     <div className="space-y-2">
                       <a
                         href={downloadUrl}
-                        download={`${exportData.name.replace(/\s+/g, '-')}_${exportData.class.replace(/\s+/g, '-')}_${exportData.subject.replace(/\s+/g, '-')}_${getTimestamp()}.docx`.toLowerCase()}
+                        download={getExportFilename(exportFormat)}
                         onClick={() => {
                           console.log('[Vestby Export] Main download button clicked');
                           setDownloadComplete(true);
@@ -1341,6 +1368,85 @@ const App = () => {
         </div>
       )}
 
+      {/* Snapshot Panel */}
+      {showSnapshotPanel && (
+        <SnapshotPanel
+          onRestore={handleRestoreSnapshot}
+          onClose={() => setShowSnapshotPanel(false)}
+        />
+      )}
+
+      {showDictionaryPanel && (
+        <DictionaryPanel
+          words={personalWords}
+          onRemove={(word) => setPersonalWords(prev => prev.filter(w => w !== word))}
+          onClose={() => setShowDictionaryPanel(false)}
+        />
+      )}
+
+      {showRulesPanel && (
+        <HarperRulesPanel
+          rules={harperRules}
+          onClose={() => setShowRulesPanel(false)}
+        />
+      )}
+
+      {/* Import Confirmation / Error */}
+      {(pendingImport || importError) && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4"
+          onClick={() => {
+            setPendingImport(null);
+            setImportError(null);
+          }}
+        >
+          <div
+            className="bg-white rounded-xl shadow-2xl p-8 max-w-md w-full animate-in fade-in zoom-in duration-200"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {importError ? (
+              <>
+                <h2 className="text-2xl font-bold mb-4 text-gray-800 flex items-center gap-2">
+                  <AlertCircle size={24} className="text-red-500" />
+                  Kunne ikke åpne filen
+                </h2>
+                <p className="text-gray-600 leading-relaxed">{importError}</p>
+                <button
+                  onClick={() => setImportError(null)}
+                  className="mt-6 w-full px-6 py-2 bg-gray-800 text-white rounded-lg hover:bg-gray-900 transition-colors font-medium"
+                >
+                  Lukk
+                </button>
+              </>
+            ) : pendingImport && (
+              <>
+                <h2 className="text-2xl font-bold mb-4 text-gray-800">Erstatte teksten din?</h2>
+                <p className="text-gray-600 leading-relaxed">
+                  Teksten du har skrevet blir erstattet av innholdet i <strong>{pendingImport.fileName}</strong>.
+                </p>
+                <p className="text-sm text-gray-500 mt-2">
+                  Den nåværende teksten lagres som en tidligere versjon, så du kan hente den tilbake.
+                </p>
+                <div className="mt-6 flex gap-3">
+                  <button
+                    onClick={() => setPendingImport(null)}
+                    className="flex-1 px-4 py-2 text-gray-500 hover:text-gray-700 border border-gray-200 rounded-lg transition-colors"
+                  >
+                    Avbryt
+                  </button>
+                  <button
+                    onClick={() => handleConfirmImport(pendingImport)}
+                    className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+                  >
+                    Erstatt
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* About Modal */}
       {showAboutModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
@@ -1365,6 +1471,17 @@ const App = () => {
               <p className="text-sm">
                 Laget av en lærer for lærere. Lisensiert under MIT-lisensen.
               </p>
+              {profile.allowHarper && (
+                <button
+                  onClick={() => {
+                    setShowAboutModal(false);
+                    setShowRulesPanel(true);
+                  }}
+                  className="text-sm text-blue-600 hover:underline font-medium"
+                >
+                  For lærere: velg grammatikkregler for prøveprofilen
+                </button>
+              )}
               <div className="pt-4 border-t flex justify-between items-center">
                 <a
                   href="https://github.com/sigurdeye/Vestby-Prove"
@@ -1390,4 +1507,122 @@ const App = () => {
   );
 };
 
+const App = () => {
+  // Duplicate tab detection
+  const [isDuplicateTab, setIsDuplicateTab] = useState(false);
+
+  useEffect(() => {
+    // BroadcastChannel is supported in all modern browsers and SEB's Chromium engine
+    let channel: BroadcastChannel | null = null;
+    try {
+      channel = new BroadcastChannel('vestby-prove-tab');
+    } catch (e) {
+      // BroadcastChannel not supported — skip duplicate detection
+      console.warn('BroadcastChannel not supported, skipping duplicate tab detection');
+      return;
+    }
+
+    let isActive = true;
+
+    channel.onmessage = (event) => {
+      if (event.data === 'ping' && isActive) {
+        // Another tab is asking if anyone is here — reply
+        channel!.postMessage('pong');
+      } else if (event.data === 'pong' && isActive) {
+        // Another tab replied — we are the duplicate
+        setIsDuplicateTab(true);
+      }
+    };
+
+    // Ask if any other tab is already open
+    channel.postMessage('ping');
+
+    return () => {
+      isActive = false;
+      channel?.close();
+    };
+  }, []);
+
+  // Keep the exam available for reloads without network, from the start screen on
+  const [offlineStatus, setOfflineStatus] = useState<OfflineStatus>('unsupported');
+  useEffect(() => registerServiceWorker(setOfflineStatus), []);
+
+  const [profile, setProfile] = useState<ExamProfile | null>(null);
+  const [profileError, setProfileError] = useState<ProfileError | null>(null);
+  const [dictionaries, setDictionaries] = useState<DictionaryEntry[]>([]);
+
+  useEffect(() => {
+    // The profile may only offer spellcheck languages that have dictionaries on this server
+    loadAvailableDictionaries()
+      .then(entries => {
+        setDictionaries(entries);
+        return loadProfile(entries.map(entry => entry.code));
+      })
+      .then(setProfile)
+      .catch((e) => {
+        console.error('Failed to load exam profile:', e);
+        setProfileError(e instanceof ProfileError ? e : new ProfileError('Prøveprofilen kunne ikke lastes.', [String(e)]));
+      });
+  }, []);
+
+  const [session, setSession] = useState<ExamSession | null>(() => {
+    const initial = getInitialSession();
+    setActiveSession(initial);
+    return initial;
+  });
+
+  const handleStartSession = (code: string) => {
+    const next = createSession(code);
+    setActiveSession(next);
+    setSession(next);
+  };
+
+  const handleEndSession = () => {
+    setActiveSession(null);
+    setSession(null);
+  };
+
+  // Block duplicate tabs from interacting with the app
+  if (isDuplicateTab) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-900 p-8">
+        <div className="bg-white rounded-2xl shadow-2xl p-10 max-w-lg w-full text-center space-y-6">
+          <div className="text-6xl">⚠️</div>
+          <h1 className="text-2xl font-bold text-gray-800">
+            Skriveprogrammet er allerede åpent
+          </h1>
+          <p className="text-gray-600 leading-relaxed">
+            Lukk denne fanen og gå tilbake til det andre vinduet for å fortsette å skrive.
+          </p>
+          <p className="text-xs text-gray-400">
+            Hvorfor? Fordi ellers funker ikke sikkerhetskopieringen.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (profileError) {
+    return <ProfileErrorScreen error={profileError} />;
+  }
+
+  // The profile is usually local, so render nothing rather than flash a loader
+  if (!profile) return null;
+
+  if (!session) {
+    return <StartScreen onStart={handleStartSession} />;
+  }
+
+  return (
+    <ExamEditor
+      key={session.code}
+      session={session}
+      profile={profile}
+      dictionaries={dictionaries}
+      offlineStatus={offlineStatus}
+      onEndSession={handleEndSession}
+    />
+  );
+};
+
 export default App;
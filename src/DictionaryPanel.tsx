@@ -0,0 +1,59 @@
+import { BookOpen, Trash2, X } from 'lucide-react';
+
+interface DictionaryPanelProps {
+  words: string[];
+  onRemove: (word: string) => void;
+  onClose: () => void;
+}
+
+const DictionaryPanel = ({ words, onRemove, onClose }: DictionaryPanelProps) => (
+  <div
+    className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4"
+    onClick={onClose}
+  >
+    <div
+      className="bg-white rounded-xl shadow-2xl max-w-md w-full max-h-[80vh] flex flex-col animate-in fade-in zoom-in duration-200"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="p-6 border-b border-gray-200 flex justify-between items-center">
+        <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+          <BookOpen size={24} />
+          Min ordliste
+        </h2>
+        <button
+          onClick={onClose}
+          className="p-1 hover:bg-gray-200 rounded-md text-gray-400"
+        >
+          <X size={20} />
+        </button>
+      </div>
+
+      {words.length === 0 ? (
+        <div className="p-8 text-gray-400 text-center">
+          Ordlisten er tom. Trykk "Legg til i ordlisten" på en stavefeil for å godta ordet.
+        </div>
+      ) : (
+        <ul className="flex-1 overflow-y-auto divide-y divide-gray-100">
+          {words.map(word => (
+            <li key={word} className="flex justify-between items-center px-6 py-2">
+              <span className="text-gray-700">{word}</span>
+              <button
+                onClick={() => onRemove(word)}
+                className="p-1 hover:bg-red-50 rounded-md text-gray-400 hover:text-red-600 transition-colors"
+                title={`Fjern "${word}" fra ordlisten`}
+              >
+                <Trash2 size={16} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="p-4 border-t border-gray-200 text-xs text-gray-500">
+        Ordene gjelder for denne prøvekoden, både i norsk og engelsk stavekontroll.
+      </div>
+    </div>
+  </div>
+);
+
+export default DictionaryPanel;
@@ -5,77 +5,121 @@
  */
 
 import { Extension } from '@tiptap/core';
-import { Decoration, DecorationSet } from '@tiptap/pm/view';
 import { Plugin, PluginKey } from '@tiptap/pm/state';
-
-export interface HarperLintResult {
-  message: string;
-  span: {
-    start: number;
-    end: number;
-  };
-  suggestions: string[];
-  category: string;
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { ParagraphLinter } from './lintSegments';
+import { lintKey, type LintResult } from './LintExtension';
+import { getTextMap, type TextSegment } from './textMap';
+import { createHarperWorker } from './workers';
+
+// A Harper rule as the worker describes it, for the rule settings
+export interface HarperRule {
+  name: string;
+  description: string;
+  enabled: boolean;
+  defaultEnabled: boolean;
 }
 
 export interface HarperOptions {
-  onResults?: (results: HarperLintResult[]) => void;
   onStatusChange?: (status: 'loading' | 'ready' | 'error') => void;
+  // The student's personal dictionary; change it later with the setLintWords command
+  words: string[];
+  // Saved ignore state from onIgnoredChange, restored when the worker starts
+  ignored: string;
+  onIgnoredChange?: (ignored: string) => void;
+  // Only these paragraphs are linted (the mixed-language mode); the whole document when unset
+  segments?: (doc: ProseMirrorNode) => TextSegment[];
+  // Rules to switch on or off (the exam profile's harperRules)
+  lintConfig: Record<string, boolean>;
+  // Every rule Harper has, with whether it is on, once the worker has started
+  onRulesChange?: (rules: HarperRule[]) => void;
+}
+
+interface SpellcheckPluginState {
+  words: string[];
+  // Hash of a lint to ignore, set for the one transaction that asks for it
+  pendingIgnore: string | null;
 }
 
-export const harperKey = new PluginKey('harper');
+export const harperKey = new PluginKey<SpellcheckPluginState>('harper');
+
+// Style and word choice hints are hidden unless the profile picks Harper's rules itself,
+// to keep the focus on spelling and grammar
+const STYLE_CATEGORIES = ['Style', 'WordChoice'];
+
+// Harper wants "ide" (Norwegian for idea) capitalized as the acronym
+const isShown = (result: LintResult, hideStyle: boolean) =>
+  !(hideStyle && STYLE_CATEGORIES.includes(result.category)) &&
+  !(result.category === 'Capitalization' && result.suggestions.includes('IDE'));
 
 export const HarperExtension = Extension.create<HarperOptions>({
   name: 'harper',
 
   addOptions() {
     return {
-      onResults: undefined,
       onStatusChange: undefined,
+      words: [],
+      ignored: '',
+      onIgnoredChange: undefined,
+      segments: undefined,
+      lintConfig: {},
+      onRulesChange: undefined,
     };
   },
 
   addProseMirrorPlugins() {
-    const { onResults, onStatusChange } = this.options;
+    const { onStatusChange, words: initialWords, ignored, onIgnoredChange, segments, lintConfig, onRulesChange } = this.options;
     let worker: Worker | null = null;
-    let lastText = '';
-    let version = 0;
     let isReady = false;
+    const hideStyle = Object.keys(lintConfig).length === 0;
+
+    const currentSegments = (doc: ProseMirrorNode) => segments ? segments(doc) : getTextMap(doc).blocks;
 
     return [
       new Plugin({
         key: harperKey,
         state: {
-          init() {
-            return DecorationSet.empty;
+          init(): SpellcheckPluginState {
+            return { words: initialWords, pendingIgnore: null };
           },
-          apply(tr, oldState) {
-            const meta = tr.getMeta(harperKey);
-            if (meta && meta.type === 'set-decorations') {
-              return meta.decorations;
+          apply(tr, oldState): SpellcheckPluginState {
+            // Dictionary changes and ignores go through the shared lint plugin
+            const meta = tr.getMeta(lintKey);
+            const state = oldState.pendingIgnore ? { ...oldState, pendingIgnore: null } : oldState;
+            if (meta && meta.type === 'set-words' && meta.words !== state.words) {
+              return { ...state, words: meta.words };
             }
-            return oldState.map(tr.mapping, tr.doc);
-          },
-        },
-        props: {
-          decorations(state) {
-            return this.getState(state);
+            if (meta && meta.type === 'ignore' && meta.source === 'harper') {
+              return { ...state, pendingIgnore: meta.hash };
+            }
+            return state;
           },
         },
         view(editorView) {
-          let debounceTimeout: any = null;
-          let initTimeout: any = null;
+          let initTimeout: ReturnType<typeof setTimeout> | null = null;
+
+          // Results for each paragraph, so edits only re-lint the paragraphs they touch
+          const linter = new ParagraphLinter<LintResult>({
+            segments: () => currentSegments(editorView.state.doc),
+            send: (paragraphs, version) => worker?.postMessage({ type: 'lint', paragraphs, version }),
+            report: results => {
+              if (editorView.isDestroyed) return;
+              editorView.dispatch(editorView.state.tr.setMeta(lintKey, {
+                type: 'set-results',
+                source: 'harper',
+                results: results.filter(result => isShown(result, hideStyle)),
+              }));
+            },
+          });
 
           const initWorker = () => {
             if (worker) return;
             console.log("Lazy loading Harper worker...");
-            worker = new Worker(new URL('./harper.worker.ts', import.meta.url), {
-              type: 'module',
-            });
+            worker = createHarperWorker();
             if (onStatusChange) onStatusChange('loading');
 
             worker.onmessage = (e) => {
-              const { type, results, error, version: resultVersion } = e.data;
+              const { type, paragraphs, results, error, version: resultVersion } = e.data;
               
               if (type === 'ready') {
                 if (isReady) return; // Prevent multiple ready logs/triggers
@@ -83,8 +127,7 @@ export const HarperExtension = Extension.create<HarperOptions>({
                 isReady = true;
                 if (onStatusChange) onStatusChange('ready');
                 // Trigger initial lint once ready
-                const text = editorView.state.doc.textContent;
-                worker?.postMessage({ type: 'lint', text, version });
+                linter.lint();
                 return;
               }
 
@@ -94,19 +137,26 @@ export const HarperExtension = Extension.create<HarperOptions>({
                 return;
               }
 
-              // Only process results if they match the current document version
-              if (resultVersion !== version) {
+              if (type === 'ignored') {
+                if (onIgnoredChange) onIgnoredChange(e.data.ignored);
+                return;
+              }
+
+              if (type === 'rules') {
+                if (onRulesChange) onRulesChange(e.data.rules);
                 return;
               }
 
               if (type === 'results') {
-                if (onResults) {
-                  onResults(results);
-                }
+                // Only reported once the document has stopped changing
+                linter.receive(paragraphs, results, resultVersion);
               }
             };
 
             // Explicitly trigger initialization
+            worker.postMessage({ type: 'set-words', words: harperKey.getState(editorView.state)?.words || [] });
+            worker.postMessage({ type: 'set-ignored', ignored });
+            worker.postMessage({ type: 'set-lint-config', config: lintConfig });
             worker.postMessage({ type: 'init' });
           };
 
@@ -115,24 +165,30 @@ export const HarperExtension = Extension.create<HarperOptions>({
 
           return {
             update(view, prevState) {
+              const words = harperKey.getState(view.state)?.words;
+              if (worker && words !== harperKey.getState(prevState)?.words) {
+                worker.postMessage({ type: 'set-words', words });
+                // Re-check right away so words added to the dictionary lose their underline
+                linter.reset();
+                if (isReady) linter.lint();
+              }
+
+              const pendingIgnore = harperKey.getState(view.state)?.pendingIgnore;
+              if (worker && isReady && pendingIgnore) {
+                worker.postMessage({ type: 'ignore', hash: pendingIgnore });
+                linter.ignore(pendingIgnore);
+                linter.lint();
+              }
+
               if (!worker || !isReady) return;
 
-              const { state } = view;
-              const text = state.doc.textContent;
-
-              if (text !== lastText) {
-                lastText = text;
-                version++;
-                const currentVersion = version;
-                
-                if (debounceTimeout) clearTimeout(debounceTimeout);
-                debounceTimeout = setTimeout(() => {
-                  worker?.postMessage({ type: 'lint', text, version: currentVersion });
-                }, 500);
+              if (view.state.doc !== prevState.doc) {
+                // Results still on their way are for an older document; they are cached but not shown
+                linter.documentChanged();
               }
             },
             destroy() {
-              if (debounceTimeout) clearTimeout(debounceTimeout);
+              linter.dispose();
               if (initTimeout) clearTimeout(initTimeout);
               if (worker) {
                 worker.postMessage({ type: 'dispose' });
@@ -0,0 +1,129 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Copy, ListChecks, X } from 'lucide-react';
+import type { HarperRule } from './HarperExtension';
+
+interface HarperRulesPanelProps {
+  // null until the English spellcheck has started
+  rules: HarperRule[] | null;
+  onClose: () => void;
+}
+
+// "LongSentences" -> "Long Sentences"
+const ruleLabel = (name: string) => name.replace(/([a-z])([A-Z])/g, '$1 $2');
+
+/**
+ * Lets a teacher pick Harper rules and copy them as the profile's "harperRules" field.
+ * The choices only build the profile text; they do not change the running exam.
+ */
+const HarperRulesPanel = ({ rules, onClose }: HarperRulesPanelProps) => {
+  const [enabled, setEnabled] = useState<Record<string, boolean>>({});
+  const [filter, setFilter] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  // The rules arrive when the English spellcheck starts, possibly while the panel is open
+  useEffect(() => {
+    setEnabled(Object.fromEntries((rules || []).map(rule => [rule.name, rule.enabled])));
+  }, [rules]);
+
+  const shownRules = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    if (!query) return rules || [];
+    return (rules || []).filter(rule =>
+      rule.name.toLowerCase().includes(query) || rule.description.toLowerCase().includes(query));
+  }, [rules, filter]);
+
+  // Only rules that differ from Harper's defaults go in the profile
+  const profileText = useMemo(() => {
+    const isEnabled = (rule: HarperRule) => enabled[rule.name] ?? rule.enabled;
+    const changed = Object.fromEntries((rules || [])
+      .filter(rule => isEnabled(rule) !== rule.defaultEnabled)
+      .map(rule => [rule.name, isEnabled(rule)]));
+    return `"harperRules": ${JSON.stringify(changed, null, 2)}`;
+  }, [rules, enabled]);
+
+  const copyProfileText = async () => {
+    try {
+      await navigator.clipboard.writeText(profileText);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (e) {
+      console.error('[Vestby Rules] Could not copy to the clipboard:', e);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl max-w-2xl w-full max-h-[85vh] flex flex-col animate-in fade-in zoom-in duration-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-6 border-b border-gray-200 flex justify-between items-center">
+          <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+            <ListChecks size={24} />
+            Grammatikkregler (engelsk)
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-gray-200 rounded-md text-gray-400"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {!rules ? (
+          <div className="p-8 text-gray-400 text-center">
+            Reglene vises når den engelske stavekontrollen er startet. Velg engelsk stavekontroll og prøv igjen.
+          </div>
+        ) : (
+          <>
+            <div className="px-6 pt-4">
+              <input
+                type="search"
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                placeholder="Søk etter regel..."
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <ul className="flex-1 overflow-y-auto divide-y divide-gray-100 mt-2">
+              {shownRules.map(rule => (
+                <li key={rule.name} className="px-6 py-2">
+                  <label className="flex items-start gap-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={enabled[rule.name] ?? rule.enabled}
+                      onChange={(e) => setEnabled(prev => ({ ...prev, [rule.name]: e.target.checked }))}
+                      className="mt-1"
+                    />
+                    <span>
+                      <span className="block text-sm font-medium text-gray-800">{ruleLabel(rule.name)}</span>
+                      <span className="block text-xs text-gray-500">{rule.description}</span>
+                    </span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+            <div className="p-4 border-t border-gray-200 space-y-2">
+              <p className="text-xs text-gray-500">
+                Lim inn dette i prøveprofilen for å bruke valgene. Endringene her gjelder ikke prøven som er åpen nå. Uten dette feltet i profilen vises ikke forslag om stil og ordvalg.
+              </p>
+              <pre className="text-xs bg-gray-50 border border-gray-200 rounded-lg p-3 max-h-32 overflow-auto">{profileText}</pre>
+              <button
+                onClick={copyProfileText}
+                className="flex items-center gap-2 px-4 py-2 bg-gray-800 text-white rounded-lg hover:bg-gray-900 transition-colors text-sm font-medium"
+              >
+                <Copy size={16} />
+                {copied ? 'Kopiert!' : 'Kopier'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HarperRulesPanel;
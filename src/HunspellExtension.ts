@@ -0,0 +1,175 @@
+/**
+ * Hunspell spellchecker TipTap extension using Typo.js, for any language in
+ * public/dictionaries/manifest.json.
+ * Mirrors HarperExtension interface for UI compatibility.
+ */
+
+import { Extension } from '@tiptap/core';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { ParagraphLinter } from './lintSegments';
+import { lintKey, type LintResult } from './LintExtension';
+import { getTextMap, type TextSegment } from './textMap';
+import { createHunspellWorker } from './workers';
+
+export interface HunspellOptions {
+  // Language code from the dictionary manifest, e.g. 'no' or 'nn'
+  language: string;
+  onStatusChange?: (status: 'loading' | 'ready' | 'error') => void;
+  // The student's personal dictionary; change it later with the setLintWords command
+  words: string[];
+  // Saved ignore state from onIgnoredChange, restored when the worker starts
+  ignored: string;
+  onIgnoredChange?: (ignored: string) => void;
+  // Only these paragraphs are linted (the mixed-language mode); the whole document when unset
+  segments?: (doc: ProseMirrorNode) => TextSegment[];
+}
+
+interface SpellcheckPluginState {
+  words: string[];
+  // Hash of a lint to ignore, set for the one transaction that asks for it
+  pendingIgnore: string | null;
+}
+
+export const hunspellKey = new PluginKey<SpellcheckPluginState>('hunspell');
+
+export const HunspellExtension = Extension.create<HunspellOptions>({
+  name: 'hunspell',
+
+  addOptions() {
+    return {
+      language: 'no',
+      onStatusChange: undefined,
+      words: [],
+      ignored: '',
+      onIgnoredChange: undefined,
+      segments: undefined,
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const { language, onStatusChange, words: initialWords, ignored, onIgnoredChange, segments } = this.options;
+    let worker: Worker | null = null;
+    let isReady = false;
+
+    const currentSegments = (doc: ProseMirrorNode) => segments ? segments(doc) : getTextMap(doc).blocks;
+
+    return [
+      new Plugin({
+        key: hunspellKey,
+        state: {
+          init(): SpellcheckPluginState {
+            return { words: initialWords, pendingIgnore: null };
+          },
+          apply(tr, oldState): SpellcheckPluginState {
+            // Dictionary changes and ignores go through the shared lint plugin
+            const meta = tr.getMeta(lintKey);
+            const state = oldState.pendingIgnore ? { ...oldState, pendingIgnore: null } : oldState;
+            if (meta && meta.type === 'set-words' && meta.words !== state.words) {
+              return { ...state, words: meta.words };
+            }
+            if (meta && meta.type === 'ignore' && meta.source === 'hunspell') {
+              return { ...state, pendingIgnore: meta.hash };
+            }
+            return state;
+          },
+        },
+        view(editorView) {
+          let initTimeout: ReturnType<typeof setTimeout> | null = null;
+
+          // Results for each paragraph, so edits only re-check the paragraphs they touch
+          const linter = new ParagraphLinter<LintResult>({
+            segments: () => currentSegments(editorView.state.doc),
+            send: (paragraphs, version) => worker?.postMessage({ type: 'lint', paragraphs, version }),
+            report: results => {
+              if (editorView.isDestroyed) return;
+              editorView.dispatch(editorView.state.tr.setMeta(lintKey, { type: 'set-results', source: 'hunspell', results }));
+            },
+          });
+
+          const initWorker = () => {
+            if (worker) return;
+            console.log("Lazy loading Hunspell spellchecker worker...");
+            worker = createHunspellWorker();
+            if (onStatusChange) onStatusChange('loading');
+
+            worker.onmessage = (e) => {
+              const { type, paragraphs, results, error, version: resultVersion } = e.data;
+
+              if (type === 'ready') {
+                if (isReady) return;
+                console.log("Hunspell spellchecker worker ready.");
+                isReady = true;
+                if (onStatusChange) onStatusChange('ready');
+                // Trigger initial lint once ready
+                linter.lint();
+                return;
+              }
+
+              if (type === 'error') {
+                console.error('Hunspell Worker Error:', error);
+                if (onStatusChange) onStatusChange('error');
+                return;
+              }
+
+              if (type === 'ignored') {
+                if (onIgnoredChange) onIgnoredChange(e.data.ignored);
+                return;
+              }
+
+              if (type === 'results') {
+                // Only reported once the document has stopped changing
+                linter.receive(paragraphs, results, resultVersion);
+              }
+            };
+
+            // Explicitly trigger initialization
+            worker.postMessage({ type: 'set-dictionary', language });
+            worker.postMessage({ type: 'set-words', words: hunspellKey.getState(editorView.state)?.words || [] });
+            worker.postMessage({ type: 'set-ignored', ignored });
+            worker.postMessage({ type: 'init' });
+          };
+
+          // Start worker immediately (dictionary is lazy-loaded inside worker)
+          initTimeout = setTimeout(initWorker, 500);
+
+          return {
+            update(view, prevState) {
+              const words = hunspellKey.getState(view.state)?.words;
+              if (worker && words !== hunspellKey.getState(prevState)?.words) {
+                worker.postMessage({ type: 'set-words', words });
+                // Re-check right away so words added to the dictionary lose their underline
+                linter.reset();
+                if (isReady) linter.lint();
+              }
+
+              const pendingIgnore = hunspellKey.getState(view.state)?.pendingIgnore;
+              if (worker && isReady && pendingIgnore) {
+                worker.postMessage({ type: 'ignore', hash: pendingIgnore });
+                linter.ignore(pendingIgnore);
+                linter.lint();
+              }
+
+              if (!worker || !isReady) return;
+
+              if (view.state.doc !== prevState.doc) {
+                // Results still on their way are for an older document; they are cached but not shown
+                linter.documentChanged();
+              }
+            },
+            destroy() {
+              linter.dispose();
+              if (initTimeout) clearTimeout(initTimeout);
+              if (worker) {
+                worker.postMessage({ type: 'dispose' });
+                const w = worker;
+                setTimeout(() => w.terminate(), 100);
+                worker = null;
+              }
+            },
+          };
+        },
+      }),
+    ];
+  },
+});
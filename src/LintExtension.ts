@@ -0,0 +1,256 @@
+/**
+ * Shared lint results for the spellcheckers.
+ * HarperExtension and HunspellExtension report their results here. This plugin keeps
+ * them in document positions, maps them through every transaction, draws the
+ * squiggles and tracks which result is focused. React reads the results with
+ * subscribeToLints and acts on them with the commands below.
+ */
+
+import { Extension, type Editor } from '@tiptap/core';
+import { Plugin, PluginKey, TextSelection, type EditorState } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { getTextMap, offsetToPos } from './textMap';
+
+export type LintSource = 'harper' | 'hunspell';
+
+// A result as the spellcheckers report it, with the span in text map offsets
+export interface LintResult {
+  message: string;
+  span: {
+    start: number;
+    end: number;
+  };
+  suggestions: string[];
+  category: string;
+  // The rule that found it: a Harper rule name, or 'Hunspell'
+  rule: string;
+  // Context hash, used to ignore this lint
+  hash: string;
+}
+
+export interface PositionedLint extends LintResult {
+  // Stays the same while the result is shown; used for focus and as a React key
+  id: string;
+  source: LintSource;
+  // Document positions, kept up to date through edits
+  from: number;
+  to: number;
+}
+
+export interface LintState {
+  // All spellcheckers' results in document order
+  results: PositionedLint[];
+  focused: string | null;
+  decorations: DecorationSet;
+  // Changes when results are added or removed, but not when edits only move them
+  revision: number;
+}
+
+type LintMeta =
+  | { type: 'set-results'; source: LintSource; results: LintResult[] }
+  | { type: 'focus'; id: string | null }
+  | { type: 'ignore'; source: LintSource; hash: string }
+  | { type: 'set-words'; words: string[] };
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    lints: {
+      // Selects a result's text and highlights it
+      focusLint: (id: string) => ReturnType;
+      // Hides a result now and tells its spellchecker to ignore it from now on
+      ignoreLint: (id: string) => ReturnType;
+      // Hands the personal dictionary to the spellcheckers
+      setLintWords: (words: string[]) => ReturnType;
+    };
+  }
+}
+
+export const lintKey = new PluginKey<LintState>('lints');
+
+const CATEGORY_COLORS: Record<string, string> = {
+  Typo: '#f97316', // Orange
+  Spelling: '#f97316',
+  Grammar: '#3b82f6', // Blue
+  Style: '#eab308', // Yellow
+  WordChoice: '#22c55e', // Green
+  Capitalization: '#6366f1', // Indigo
+  Punctuation: '#a855f7', // Purple
+  Repetition: '#14b8a6', // Teal
+  Formatting: '#64748b', // Slate
+};
+const DEFAULT_COLOR = '#ef4444'; // Red for unknown
+
+function decorationFor(result: PositionedLint, isFocused: boolean) {
+  const color = CATEGORY_COLORS[result.category] || DEFAULT_COLOR;
+  return Decoration.inline(result.from, result.to, {
+    class: isFocused ? 'harper-error harper-error-focused' : 'harper-error',
+    // Use wavy decoration for "squiggly" effect
+    style: `text-decoration: underline wavy ${color} 2px !important; text-underline-offset: 4px !important; background-color: ${isFocused ? color + '40' : color + '15'} !important; cursor: text !important; transition: background-color 0.2s ease;`,
+  }, { id: result.id });
+}
+
+function positionResults(doc: ProseMirrorNode, source: LintSource, results: LintResult[]): PositionedLint[] {
+  const map = getTextMap(doc);
+  return results.flatMap(result => {
+    const from = offsetToPos(map, result.span.start);
+    const to = offsetToPos(map, result.span.end, true);
+    if (to <= from || to > doc.content.size) return [];
+    return [{ ...result, source, from, to, id: `${source}:${from}-${to}:${result.hash}` }];
+  });
+}
+
+// Redraws only the results whose focus changed
+function setFocus(state: LintState, doc: ProseMirrorNode, focused: string | null): LintState {
+  if (focused === state.focused) return state;
+  const changed = state.results.filter(result => result.id === state.focused || result.id === focused);
+  const ids = changed.map(result => result.id);
+  const old = state.decorations.find(undefined, undefined, spec => ids.includes(spec.id));
+  return {
+    ...state,
+    focused,
+    decorations: state.decorations
+      .remove(old)
+      .add(doc, changed.map(result => decorationFor(result, result.id === focused))),
+  };
+}
+
+function removeResults(state: LintState, shouldRemove: (result: PositionedLint) => boolean): LintState {
+  const ids = state.results.filter(shouldRemove).map(result => result.id);
+  if (ids.length === 0) return state;
+  return {
+    results: state.results.filter(result => !ids.includes(result.id)),
+    focused: state.focused && ids.includes(state.focused) ? null : state.focused,
+    decorations: state.decorations.remove(state.decorations.find(undefined, undefined, spec => ids.includes(spec.id))),
+    revision: state.revision + 1,
+  };
+}
+
+export const findLint = (state: EditorState, id: string) =>
+  lintKey.getState(state)?.results.find(result => result.id === id);
+
+/**
+ * Calls `listener` with the current results, and again whenever results are added,
+ * removed or focused. Returns a function that stops listening.
+ */
+export function subscribeToLints(editor: Editor, listener: (state: LintState) => void) {
+  let last = lintKey.getState(editor.state);
+  if (last) listener(last);
+
+  const handleTransaction = () => {
+    const next = lintKey.getState(editor.state);
+    if (!next || (last && next.revision === last.revision && next.focused === last.focused)) return;
+    last = next;
+    listener(next);
+  };
+
+  editor.on('transaction', handleTransaction);
+  return () => {
+    editor.off('transaction', handleTransaction);
+  };
+}
+
+export const LintExtension = Extension.create({
+  name: 'lints',
+
+  addCommands() {
+    return {
+      focusLint: id => ({ state, tr, dispatch }) => {
+        const result = findLint(state, id);
+        if (!result) return false;
+        if (dispatch) {
+          tr.setSelection(TextSelection.create(tr.doc, result.from, result.to));
+          tr.setMeta(lintKey, { type: 'focus', id });
+        }
+        return true;
+      },
+      ignoreLint: id => ({ state, tr, dispatch }) => {
+        const result = findLint(state, id);
+        if (!result) return false;
+        if (dispatch) tr.setMeta(lintKey, { type: 'ignore', source: result.source, hash: result.hash });
+        return true;
+      },
+      setLintWords: words => ({ tr, dispatch }) => {
+        if (dispatch) tr.setMeta(lintKey, { type: 'set-words', words });
+        return true;
+      },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<LintState>({
+        key: lintKey,
+        state: {
+          init(): LintState {
+            return { results: [], focused: null, decorations: DecorationSet.empty, revision: 0 };
+          },
+          apply(tr, oldState, _oldEditorState, newEditorState): LintState {
+            const meta = tr.getMeta(lintKey) as LintMeta | undefined;
+            let state = oldState;
+
+            if (tr.docChanged) {
+              // Results whose text was deleted go away with it
+              const results = state.results.flatMap(result => {
+                const from = tr.mapping.map(result.from, 1);
+                const to = tr.mapping.map(result.to, -1);
+                return from < to ? [{ ...result, from, to }] : [];
+              });
+              state = {
+                ...state,
+                results,
+                decorations: state.decorations.map(tr.mapping, tr.doc),
+                revision: results.length === state.results.length ? state.revision : state.revision + 1,
+              };
+            }
+
+            if (meta?.type === 'set-results') {
+              const results = [
+                ...state.results.filter(result => result.source !== meta.source),
+                ...positionResults(tr.doc, meta.source, meta.results),
+              ].sort((a, b) => a.from - b.from);
+              const focused = results.some(result => result.id === state.focused) ? state.focused : null;
+              return {
+                results,
+                focused,
+                decorations: DecorationSet.create(tr.doc, results.map(result => decorationFor(result, result.id === focused))),
+                revision: state.revision + 1,
+              };
+            }
+
+            if (meta?.type === 'ignore') {
+              return removeResults(state, result => result.source === meta.source && result.hash === meta.hash);
+            }
+
+            if (meta?.type === 'set-words') {
+              // Hide the words right away; the spellcheckers re-check with the new dictionary
+              return removeResults(state, result => {
+                if (result.category !== 'Spelling') return false;
+                const text = tr.doc.textBetween(result.from, result.to);
+                return meta.words.includes(text) || meta.words.includes(text.toLowerCase());
+              });
+            }
+
+            if (meta?.type === 'focus') {
+              return setFocus(state, tr.doc, meta.id);
+            }
+
+            // Moving the cursor into a result focuses it
+            if (tr.selectionSet) {
+              const { from } = newEditorState.selection;
+              const result = state.results.find(r => from >= r.from && from <= r.to);
+              if (result) return setFocus(state, tr.doc, result.id);
+            }
+
+            return state;
+          },
+        },
+        props: {
+          decorations(state) {
+            return this.getState(state)?.decorations;
+          },
+        },
+      }),
+    ];
+  },
+});
@@ -0,0 +1,28 @@
+import type { ProfileError } from './examProfile';
+
+interface ProfileErrorScreenProps {
+  error: ProfileError;
+}
+
+const ProfileErrorScreen = ({ error }: ProfileErrorScreenProps) => (
+  <div className="min-h-screen flex items-center justify-center bg-gray-900 p-8 font-arial">
+    <div className="bg-white rounded-2xl shadow-2xl p-10 max-w-lg w-full space-y-6">
+      <div className="text-6xl text-center">⚠️</div>
+      <h1 className="text-2xl font-bold text-gray-800 text-center">
+        {error.message}
+      </h1>
+      <p className="text-gray-600 leading-relaxed text-center">
+        Si fra til læreren din. Skriveprogrammet kan ikke startes før prøveprofilen er rettet.
+      </p>
+      {error.problems.length > 0 && (
+        <ul className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700 space-y-1 list-disc list-inside">
+          {error.problems.map((problem, idx) => (
+            <li key={idx}>{problem}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  </div>
+);
+
+export default ProfileErrorScreen;
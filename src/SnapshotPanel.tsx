@@ -0,0 +1,183 @@
+import { useEffect, useMemo, useState } from 'react';
+import { History, Loader2, X } from 'lucide-react';
+import { clsx } from 'clsx';
+import { listSnapshots, type Snapshot } from './snapshotStore';
+
+interface SnapshotPanelProps {
+  onRestore: (snapshot: Snapshot) => void;
+  onClose: () => void;
+}
+
+const formatSnapshotTime = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const time = `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}:${date.getSeconds().toString().padStart(2, '0')}`;
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday ? `I dag ${time}` : `${date.toLocaleDateString('nb-NO')} ${time}`;
+};
+
+interface PreviewBlock {
+  kind: 'paragraph' | 'heading' | 'listItem' | 'quote' | 'rule';
+  text: string;
+  // Heading level, or list nesting depth (0 for a top-level list)
+  level: number;
+  // List marker, e.g. "•" or "2."
+  marker?: string;
+}
+
+const countAncestorLists = (element: Element) => {
+  let count = 0;
+  for (let current: Element | null = element; current; current = current.parentElement) {
+    if (current.tagName === 'UL' || current.tagName === 'OL') count++;
+  }
+  return count;
+};
+
+// Plain-text blocks of a snapshot, so the preview never renders stored HTML directly
+const getPreviewBlocks = (html: string): PreviewBlock[] => {
+  const body = new DOMParser().parseFromString(html, 'text/html').body;
+  return Array.from(body.querySelectorAll('p, h1, h2, h3, h4, h5, h6, hr'))
+    .map((element): PreviewBlock => {
+      const text = element.textContent || '';
+      if (element.tagName === 'HR') return { kind: 'rule', text, level: 0 };
+      if (/^H\d$/.test(element.tagName)) return { kind: 'heading', text, level: Number(element.tagName[1]) };
+
+      const listItem = element.closest('li');
+      if (listItem) {
+        const list = listItem.parentElement;
+        const index = list ? Array.from(list.children).indexOf(listItem) : 0;
+        return {
+          kind: 'listItem',
+          text,
+          level: countAncestorLists(listItem) - 1,
+          // Only the first paragraph of an item gets the marker
+          marker: listItem.querySelector('p') !== element ? '' : list?.tagName === 'OL' ? `${index + 1}.` : '•',
+        };
+      }
+      return { kind: element.closest('blockquote') ? 'quote' : 'paragraph', text, level: 0 };
+    })
+    .filter(block => block.kind === 'rule' || block.text.trim().length > 0);
+};
+
+const HEADING_CLASSES: Record<number, string> = {
+  1: 'text-2xl font-bold text-gray-800',
+  2: 'text-xl font-bold text-gray-800',
+  3: 'text-lg font-bold text-gray-800',
+};
+
+const PreviewBlockView = ({ block }: { block: PreviewBlock }) => {
+  switch (block.kind) {
+    case 'rule':
+      return <hr className="border-gray-300" />;
+    case 'heading':
+      return <p className={HEADING_CLASSES[block.level] || HEADING_CLASSES[3]}>{block.text}</p>;
+    case 'quote':
+      return <p className="pl-4 border-l-4 border-gray-300 italic text-gray-600">{block.text}</p>;
+    case 'listItem':
+      return (
+        <div className="flex gap-2" style={{ paddingLeft: `${block.level * 1.5}rem` }}>
+          <span className="w-6 shrink-0 text-right text-gray-500">{block.marker}</span>
+          <span>{block.text}</span>
+        </div>
+      );
+    default:
+      return <p>{block.text}</p>;
+  }
+};
+
+const SnapshotPanel = ({ onRestore, onClose }: SnapshotPanelProps) => {
+  const [snapshots, setSnapshots] = useState<Snapshot[] | null>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listSnapshots().then(result => {
+      if (cancelled) return;
+      setSnapshots(result);
+      if (result.length > 0) setSelectedId(result[0].id);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const selected = snapshots?.find(s => s.id === selectedId) || null;
+  const previewBlocks = useMemo(() => selected ? getPreviewBlocks(selected.html) : [], [selected]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl max-w-4xl w-full h-[80vh] flex flex-col animate-in fade-in zoom-in duration-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-6 border-b border-gray-200 flex justify-between items-center">
+          <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+            <History size={24} />
+            Gjenopprett tidligere versjon
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-gray-200 rounded-md text-gray-400"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {snapshots === null ? (
+          <div className="flex-1 flex items-center justify-center text-gray-400">
+            <Loader2 size={32} className="animate-spin" />
+          </div>
+        ) : snapshots.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center text-gray-400 text-center p-8">
+            Ingen tidligere versjoner er lagret ennå.
+          </div>
+        ) : (
+          <div className="flex-1 flex overflow-hidden">
+            <ul className="w-64 border-r border-gray-200 overflow-y-auto">
+              {snapshots.map(snapshot => (
+                <li key={snapshot.id}>
+                  <button
+                    onClick={() => setSelectedId(snapshot.id)}
+                    className={clsx(
+                      "w-full text-left px-4 py-3 border-b border-gray-100 hover:bg-blue-50/50 transition-colors",
+                      snapshot.id === selectedId && "bg-blue-50 text-blue-700"
+                    )}
+                  >
+                    <div className="text-sm font-medium">{formatSnapshotTime(snapshot.timestamp)}</div>
+                    <div className="text-xs text-gray-500">{snapshot.wordCount} ord</div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex-1 flex flex-col overflow-hidden">
+              <div className="flex-1 overflow-y-auto p-6 space-y-3 text-gray-700 leading-relaxed bg-gray-50">
+                {previewBlocks.length === 0 ? (
+                  <p className="text-gray-400 italic">Denne versjonen er tom.</p>
+                ) : (
+                  previewBlocks.map((block, idx) => <PreviewBlockView key={idx} block={block} />)
+                )}
+              </div>
+              <div className="p-4 border-t border-gray-200 flex justify-between items-center gap-4">
+                <p className="text-xs text-gray-500">
+                  Teksten du har nå lagres som en egen versjon før den erstattes.
+                </p>
+                <button
+                  onClick={() => selected && onRestore(selected)}
+                  disabled={!selected}
+                  className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-30 whitespace-nowrap"
+                >
+                  Gjenopprett
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SnapshotPanel;
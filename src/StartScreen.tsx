@@ -0,0 +1,53 @@
+import { useState } from 'react';
+import { normalizeSessionCode } from './session';
+
+interface StartScreenProps {
+  onStart: (code: string) => void;
+}
+
+const StartScreen = ({ onStart }: StartScreenProps) => {
+  const [input, setInput] = useState('');
+  const code = normalizeSessionCode(input);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-[#f3f3f3] p-8 font-arial">
+      <form
+        className="bg-white rounded-2xl shadow-2xl p-10 max-w-md w-full space-y-6"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (code) onStart(code);
+        }}
+      >
+        <div className="space-y-2 text-center">
+          <h1 className="text-2xl font-bold text-gray-800">Vestby prøve</h1>
+          <p className="text-gray-600 leading-relaxed">
+            Skriv inn prøvekoden du har fått av læreren din.
+          </p>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Prøvekode</label>
+          <input
+            type="text"
+            className="w-full p-3 border border-gray-300 rounded-lg outline-none focus:ring-2 focus:ring-blue-500 transition-all uppercase tracking-widest text-center font-mono"
+            placeholder="F.eks. 10A-ENGELSK"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            autoFocus
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={!code}
+          className="w-full px-4 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium shadow-sm disabled:opacity-30"
+        >
+          Start
+        </button>
+        <p className="text-xs text-gray-400 text-center">
+          Teksten din lagres bare på denne maskinen, under prøvekoden.
+        </p>
+      </form>
+    </div>
+  );
+};
+
+export default StartScreen;
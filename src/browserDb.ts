@@ -0,0 +1,60 @@
+/**
+ * Shared IndexedDB access for the local stores (snapshots, fallback document).
+ * Resolves to null when IndexedDB is unavailable so callers can fall back to localStorage.
+ */
+
+const DB_NAME = 'vestby-prove';
+const DB_VERSION = 2;
+
+export const SNAPSHOT_STORE = 'snapshots';
+export const DOCUMENT_STORE = 'documents';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+export function openDb(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve) => {
+    try {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+          db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id', autoIncrement: true });
+        }
+        if (!db.objectStoreNames.contains(DOCUMENT_STORE)) {
+          db.createObjectStore(DOCUMENT_STORE, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('[Vestby Storage] IndexedDB unavailable:', request.error);
+        resolve(null);
+      };
+    } catch (e) {
+      console.warn('[Vestby Storage] IndexedDB unavailable:', e);
+      resolve(null);
+    }
+  });
+
+  return dbPromise;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
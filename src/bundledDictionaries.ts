@@ -0,0 +1,11 @@
+/**
+ * public/dictionaries/ embedded in the page, for the single-file build, which replaces
+ * this module (see scripts/single-file.js). Null in the normal build, where the
+ * dictionaries are fetched from the server.
+ */
+
+// The parsed manifest.json
+export const bundledManifest: unknown = null;
+
+// File contents by file name, e.g. { 'nb.words': '...' }
+export const bundledFiles: Record<string, string> | null = null;
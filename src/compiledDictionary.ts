@@ -0,0 +1,113 @@
+/**
+ * Pre-expanded Hunspell dictionaries.
+ * Expanding a .dic file with its affix rules takes seconds on school laptops, so
+ * scripts/compile-dictionaries.js does it at build time and writes the expanded word
+ * list next to the dictionary (nb.dic -> nb.words). The worker loads that instead,
+ * and keeps it in Cache Storage so later page loads do not download it again.
+ *
+ * Format: UTF-8 text. The first line is a JSON header with the format version, the
+ * locale, the affix flags, compound rules and replacement table Typo.js needs, and a
+ * hash of the source files. Every other line is one word, front-coded against the word
+ * before it: the first character is the number of shared leading characters plus 48
+ * ('0' means none), followed by the rest of the word. Words with flags that still
+ * matter when checking (KEEPCASE, ONLYINCOMPOUND) add a tab and their flag lists as JSON.
+ */
+
+import Typo from 'typo-js';
+import {
+  compiledDictionaryFile, dictionariesBundled, dictionaryUrl, fetchDictionaryFile, type DictionaryEntry
+} from './dictionaryRegistry';
+
+// Bump together with FORMAT_VERSION in scripts/compile-dictionaries.js
+export const COMPILED_FORMAT_VERSION = 1;
+
+const CACHE_NAME = 'vestby-dictionaries';
+
+interface CompiledHeader {
+  format: number;
+  locale: string;
+  // Hash of the .aff and .dic files the list was made from
+  source: string;
+  flags: Record<string, string>;
+  compoundRules: string[];
+  replacementTable: [string, string][];
+}
+
+export function parseCompiledDictionary(data: string): Typo {
+  const headerEnd = data.indexOf('\n');
+  const header = JSON.parse(data.slice(0, headerEnd)) as CompiledHeader;
+  if (header.format !== COMPILED_FORMAT_VERSION) {
+    throw new Error(`Unsupported compiled dictionary format ${header.format}`);
+  }
+
+  const dictionaryTable: Record<string, string[][] | null> = {};
+  let previous = '';
+  for (const line of data.slice(headerEnd + 1).split('\n')) {
+    if (!line) continue;
+    const tab = line.indexOf('\t');
+    const word = previous.slice(0, line.charCodeAt(0) - 48) + line.slice(1, tab === -1 ? undefined : tab);
+    dictionaryTable[word] = tab === -1 ? null : JSON.parse(line.slice(tab + 1));
+    previous = word;
+  }
+
+  // An empty name keeps Typo.js from trying to load the files itself
+  return new Typo('').load({
+    dictionary: header.locale,
+    flags: header.flags,
+    compoundRules: header.compoundRules.map(rule => new RegExp(rule, 'i')),
+    replacementTable: header.replacementTable,
+    dictionaryTable,
+    loaded: true,
+  });
+}
+
+async function openCache(): Promise<Cache | null> {
+  // Cache Storage only exists on https and localhost
+  if (typeof caches === 'undefined') return null;
+  try {
+    return await caches.open(CACHE_NAME);
+  } catch (e) {
+    console.warn('[Vestby Dictionaries] Cache Storage unavailable:', e);
+    return null;
+  }
+}
+
+/**
+ * The compiled dictionary for `entry`: from Cache Storage when it is there, otherwise
+ * from the server. Null when the dictionary has not been compiled, so the caller can
+ * expand the .aff/.dic files instead.
+ */
+export async function loadCompiledDictionary(entry: DictionaryEntry): Promise<Typo | null> {
+  const file = compiledDictionaryFile(entry);
+  const url = dictionaryUrl(file);
+  // Nothing to download when the dictionaries are part of the page
+  const cache = dictionariesBundled ? null : await openCache();
+
+  const cached = await cache?.match(url);
+  if (cached && cache) {
+    try {
+      const typo = parseCompiledDictionary(await cached.text());
+      // Use the cached copy now, and pick up a recompiled dictionary on the next load
+      fetch(url, { cache: 'no-cache' })
+        .then(response => response.ok ? cache.put(url, response) : undefined)
+        .catch(e => console.warn('[Vestby Dictionaries] Could not refresh cached dictionary:', e));
+      return typo;
+    } catch (e) {
+      console.warn('[Vestby Dictionaries] Discarding unreadable cached dictionary:', e);
+      await cache.delete(url);
+    }
+  }
+
+  const response = await fetchDictionaryFile(file);
+  if (!response.ok) return null;
+  const data = await response.text();
+  // Development servers answer unknown paths with index.html
+  if (!data.startsWith('{')) return null;
+
+  const typo = parseCompiledDictionary(data);
+  if (cache) {
+    await cache.put(url, new Response(data, { headers: { 'Content-Type': 'text/plain; charset=utf-8' } }))
+      .catch(e => console.warn('[Vestby Dictionaries] Could not cache dictionary:', e));
+  }
+  return typo;
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { CompoundAnalyser } from './compoundWords';
+
+// Words the compound rules must accept and reject, with the dictionary words they are made of
+const CASES: Record<string, { words: string[]; accept: string[]; reject: string[] }> = {
+  no: {
+    words: ['eksamen', 'besvarelse', 'klima', 'forhandlingene', 'barn', 'hage', 'plass', 'sykkel', 'verksted', 'skole', 'bibliotek', 'biblioteket'],
+    accept: ['eksamensbesvarelse', 'klimaforhandlingene', 'barnehageplass', 'sykkelverksted', 'skolebiblioteket'],
+    reject: ['eksamensbesvarlese', 'sykkelverkstedd', 'skolebiblotek'],
+  },
+  nn: {
+    words: ['eksamen', 'svaret', 'klima', 'forhandlingane', 'barn', 'hage', 'plass', 'skule', 'bibliotek', 'biblioteket'],
+    accept: ['eksamenssvaret', 'klimaforhandlingane', 'barnehageplass', 'skulebiblioteket'],
+    reject: ['skulebiblotek', 'eksamenssvarett'],
+  },
+};
+
+const analyser = (words: string[]) => {
+  const known = new Set(words);
+  return new CompoundAnalyser(word => known.has(word));
+};
+
+describe('CompoundAnalyser', () => {
+  Object.entries(CASES).forEach(([code, { words, accept, reject }]) => {
+    it(`accepts ${code} compounds`, () => {
+      const compounds = analyser(words);
+      expect(accept.filter(word => !compounds.isCompound(word))).toEqual([]);
+    });
+
+    it(`rejects misspelt ${code} compounds`, () => {
+      const compounds = analyser(words);
+      expect(reject.filter(word => compounds.isCompound(word))).toEqual([]);
+    });
+  });
+
+  it('accepts capitalised compounds but not other casing', () => {
+    const compounds = analyser(CASES.no.words);
+    expect(compounds.isCompound('Skolebiblioteket')).toBe(true);
+    expect(compounds.isCompound('SkoleBiblioteket')).toBe(false);
+  });
+
+  it('does not split into parts shorter than three letters', () => {
+    const compounds = analyser(['is', 'bilen']);
+    expect(compounds.isCompound('isbilen')).toBe(false);
+  });
+});
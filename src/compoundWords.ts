@@ -0,0 +1,58 @@
+/**
+ * Compound words for languages that write them as one word, like Norwegian.
+ * The .dic files only list common compounds, and Typo.js does not support the
+ * compounding flags in the .aff files, so "eksamensbesvarelse" would be flagged.
+ * A word is accepted when it splits into dictionary words, with or without a
+ * linking -s- or -e- between them ("eksamen-s-besvarelse", "barn-e-hage").
+ */
+
+// Shorter parts let almost any misspelling pass as a compound
+const MIN_PART_LENGTH = 3;
+const MAX_PARTS = 4;
+const LINKING_LETTERS = ['s', 'e'];
+// Longer words are left to the dictionary rather than tried in every split
+const MAX_WORD_LENGTH = 40;
+
+export class CompoundAnalyser {
+  private check: (word: string) => boolean;
+  private known = new Map<string, boolean>();
+
+  constructor(check: (word: string) => boolean) {
+    this.check = check;
+  }
+
+  /**
+   * Whether `word` is made of dictionary words. Only lowercase and capitalised
+   * words are tried; the caller has already checked the word as a whole.
+   */
+  isCompound(word: string): boolean {
+    const lower = word.toLowerCase();
+    if (word !== lower && word !== lower.charAt(0).toUpperCase() + lower.slice(1)) return false;
+    if (lower.length < MIN_PART_LENGTH * 2 || lower.length > MAX_WORD_LENGTH) return false;
+
+    let result = this.known.get(lower);
+    if (result === undefined) {
+      result = this.splits(lower, MAX_PARTS);
+      this.known.set(lower, result);
+    }
+    return result;
+  }
+
+  // A first part, then either a last part the dictionary knows or another compound
+  private splits(word: string, partsLeft: number): boolean {
+    for (let i = MIN_PART_LENGTH; i <= word.length - MIN_PART_LENGTH; i++) {
+      const head = word.slice(0, i);
+      const tail = word.slice(i);
+      if (!this.isFirstPart(head)) continue;
+      if (this.check(tail)) return true;
+      if (partsLeft > 2 && tail.length >= MIN_PART_LENGTH * 2 && this.splits(tail, partsLeft - 1)) return true;
+    }
+    return false;
+  }
+
+  private isFirstPart(part: string) {
+    if (this.check(part)) return true;
+    const stem = part.slice(0, -1);
+    return LINKING_LETTERS.includes(part.charAt(part.length - 1)) && stem.length >= MIN_PART_LENGTH && this.check(stem);
+  }
+}
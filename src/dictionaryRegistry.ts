@@ -0,0 +1,153 @@
+import type { GrammarVariant } from './norwegianGrammar';
+import { bundledFiles, bundledManifest } from './bundledDictionaries';
+
+/**
+ * Hunspell dictionaries available to the spellchecker.
+ * public/dictionaries/manifest.json lists them, so adding a language only needs its
+ * .aff/.dic files in public/dictionaries/ and an entry in the manifest.
+ */
+
+export interface DictionaryEntry {
+  // Spellcheck mode used in profiles and the footer menu, e.g. "no" or "de"
+  code: string;
+  // Shown in the footer menu, e.g. "Tysk"
+  label: string;
+  // Locale passed to Typo.js, e.g. "nb_NO"
+  locale: string;
+  // File names in public/dictionaries/
+  aff: string;
+  dic: string;
+  // A common word the dictionary must accept, checked after loading
+  testWord?: string;
+  // Accept words made of dictionary words, as Norwegian writes compounds (see compoundWords.ts)
+  compounds?: boolean;
+  // Run the Norwegian grammar rules for Bokmål ('nb') or Nynorsk ('nn') (see norwegianGrammar.ts)
+  grammar?: GrammarVariant;
+  // Rank suggestions by Norwegian pronunciation (see norwegianPhonetics.ts)
+  phonetic?: boolean;
+}
+
+// Below the base URL, so the app also works when it is not served from the root
+const DICTIONARY_DIR = `${import.meta.env.BASE_URL}dictionaries/`;
+const MANIFEST_URL = `${DICTIONARY_DIR}manifest.json`;
+
+// Modes handled outside Hunspell
+const RESERVED_CODES = ['en', 'off'];
+
+// Used when the manifest cannot be fetched, so existing installs keep Norwegian spellcheck
+const FALLBACK_DICTIONARIES: DictionaryEntry[] = [
+  { code: 'no', label: 'Norsk (Bokmål)', locale: 'nb_NO', aff: 'nb.aff', dic: 'nb.dic', testWord: 'dette', compounds: true, grammar: 'nb', phonetic: true },
+  { code: 'nn', label: 'Norsk (Nynorsk)', locale: 'nn_NO', aff: 'nn.aff', dic: 'nn.dic', testWord: 'dette', compounds: true, grammar: 'nn', phonetic: true },
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFileName = (value: unknown): value is string =>
+  typeof value === 'string' && /^[\w.-]+$/.test(value);
+
+/**
+ * Reads the manifest's "languages" list. Invalid entries are skipped with a warning
+ * rather than taking the other languages down with them.
+ */
+export function parseManifest(raw: unknown): DictionaryEntry[] {
+  if (!isRecord(raw) || !Array.isArray(raw.languages)) {
+    throw new Error('Dictionary manifest must be an object with a "languages" list');
+  }
+
+  const entries: DictionaryEntry[] = [];
+  raw.languages.forEach((entry, idx) => {
+    if (!isRecord(entry) || typeof entry.code !== 'string' || !/^[a-z][\w-]*$/.test(entry.code) ||
+      RESERVED_CODES.includes(entry.code) || typeof entry.label !== 'string' ||
+      typeof entry.locale !== 'string' || !isFileName(entry.aff) || !isFileName(entry.dic)) {
+      console.warn(`[Vestby Dictionaries] Skipping invalid manifest entry ${idx}:`, entry);
+      return;
+    }
+    if (entries.some(e => e.code === entry.code)) {
+      console.warn(`[Vestby Dictionaries] Skipping duplicate language "${entry.code}"`);
+      return;
+    }
+    entries.push({
+      code: entry.code,
+      label: entry.label,
+      locale: entry.locale,
+      aff: entry.aff,
+      dic: entry.dic,
+      testWord: typeof entry.testWord === 'string' ? entry.testWord : undefined,
+      compounds: entry.compounds === true,
+      grammar: entry.grammar === 'nb' || entry.grammar === 'nn' ? entry.grammar : undefined,
+      phonetic: entry.phonetic === true,
+    });
+  });
+  return entries;
+}
+
+let manifestPromise: Promise<DictionaryEntry[]> | null = null;
+
+/**
+ * Fetches the manifest once per page (or worker).
+ */
+export function loadDictionaryManifest(): Promise<DictionaryEntry[]> {
+  if (!manifestPromise) {
+    const raw = bundledManifest !== null
+      ? Promise.resolve(bundledManifest)
+      : fetch(MANIFEST_URL).then(response => {
+        if (!response.ok) throw new Error(`Server responded ${response.status}`);
+        return response.json();
+      });
+    manifestPromise = raw
+      .then(parseManifest)
+      .catch(e => {
+        console.error('[Vestby Dictionaries] Failed to load manifest, using built-in list:', e);
+        return FALLBACK_DICTIONARIES;
+      });
+  }
+  return manifestPromise;
+}
+
+export const dictionaryUrl = (file: string) => `${DICTIONARY_DIR}${file}`;
+
+// The pre-expanded word list made by scripts/compile-dictionaries.js (see compiledDictionary.ts)
+export const compiledDictionaryFile = (entry: DictionaryEntry) => `${entry.dic.replace(/\.dic$/, '')}.words`;
+
+// True in the single-file build, where the dictionary files are part of the page
+export const dictionariesBundled = bundledFiles !== null;
+
+/**
+ * A file from public/dictionaries/, from the page itself in the single-file build and
+ * from the server otherwise.
+ */
+export function fetchDictionaryFile(file: string, init?: RequestInit): Promise<Response> {
+  if (bundledFiles) {
+    const data = bundledFiles[file];
+    return Promise.resolve(data === undefined ? new Response(null, { status: 404 }) : new Response(data));
+  }
+  return fetch(dictionaryUrl(file), init);
+}
+
+async function dictionaryFileExists(file: string): Promise<boolean> {
+  if (bundledFiles) return file in bundledFiles;
+  try {
+    const response = await fetch(dictionaryUrl(file), { method: 'HEAD' });
+    // Development servers and the hosting rewrite answer missing files with index.html
+    return response.ok && !(response.headers.get('Content-Type') || '').includes('text/html');
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * The manifest entries whose files are on the server (the compiled word list, or both
+ * the .aff and .dic file), so a language without its files is not offered at all.
+ */
+export async function loadAvailableDictionaries(): Promise<DictionaryEntry[]> {
+  const entries = await loadDictionaryManifest();
+  const available = await Promise.all(entries.map(async entry =>
+    await dictionaryFileExists(compiledDictionaryFile(entry)) ||
+    (await dictionaryFileExists(entry.aff) && await dictionaryFileExists(entry.dic))));
+  const missing = entries.filter((_, idx) => !available[idx]);
+  if (missing.length > 0) {
+    console.warn('[Vestby Dictionaries] Dictionary files missing, not offered:', missing.map(entry => entry.code));
+  }
+  return entries.filter((_, idx) => available[idx]);
+}
@@ -0,0 +1,118 @@
+/**
+ * Autosave for the current document.
+ * localStorage is the primary store. When it fails (typically QuotaExceededError)
+ * the document moves to an emergency copy in IndexedDB until localStorage works again.
+ */
+
+import { openDb, requestToPromise, transactionDone, DOCUMENT_STORE } from './browserDb';
+import { getActiveSessionCode, isSessionCleared, storageKey } from './session';
+
+// 'saved': stored in localStorage, 'fallback': stored in IndexedDB only, 'failed': not stored anywhere
+export type SaveResult = 'saved' | 'fallback' | 'failed';
+
+interface FallbackDocument {
+  // Session code
+  key: string;
+  html: string;
+  savedAt: number;
+}
+
+const isQuotaError = (e: unknown) =>
+  e instanceof DOMException && (e.name === 'QuotaExceededError' || e.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// Set once the emergency copy is in use, so a later successful localStorage write can clear it
+let usingFallback = false;
+
+async function writeFallbackDocument(session: string, html: string): Promise<boolean> {
+  const db = await openDb();
+  if (!db || isSessionCleared(session)) return false;
+
+  try {
+    const tx = db.transaction(DOCUMENT_STORE, 'readwrite');
+    tx.objectStore(DOCUMENT_STORE).put({ key: session, html, savedAt: Date.now() } satisfies FallbackDocument);
+    await transactionDone(tx);
+    return true;
+  } catch (e) {
+    console.error('[Vestby Storage] Emergency store failed:', e);
+    return false;
+  }
+}
+
+async function clearFallbackDocument(session: string) {
+  const db = await openDb();
+  if (!db) return;
+
+  try {
+    const tx = db.transaction(DOCUMENT_STORE, 'readwrite');
+    tx.objectStore(DOCUMENT_STORE).delete(session);
+    await transactionDone(tx);
+  } catch (e) {
+    console.error('[Vestby Storage] Failed to clear emergency copy:', e);
+  }
+}
+
+/**
+ * Reads the document synchronously from localStorage (used for the initial editor content).
+ */
+export function loadDocument(): string | null {
+  try {
+    return localStorage.getItem(storageKey('content'));
+  } catch (e) {
+    console.error('Failed to access localStorage:', e);
+    return null;
+  }
+}
+
+/**
+ * Reads the emergency copy, if the last session had to fall back to IndexedDB.
+ */
+export async function loadFallbackDocument(): Promise<string | null> {
+  const db = await openDb();
+  if (!db) return null;
+
+  try {
+    const store = db.transaction(DOCUMENT_STORE, 'readonly').objectStore(DOCUMENT_STORE);
+    const doc = await requestToPromise(store.get(getActiveSessionCode()) as IDBRequest<FallbackDocument | undefined>);
+    if (doc) usingFallback = true;
+    return doc ? doc.html : null;
+  } catch (e) {
+    console.error('[Vestby Storage] Failed to read emergency copy:', e);
+    return null;
+  }
+}
+
+/**
+ * Saves the document and reports where it ended up.
+ */
+export async function saveDocument(html: string): Promise<SaveResult> {
+  const session = getActiveSessionCode();
+  try {
+    localStorage.setItem(storageKey('content', session), html);
+    if (usingFallback) {
+      usingFallback = false;
+      clearFallbackDocument(session);
+    }
+    return 'saved';
+  } catch (e) {
+    if (isQuotaError(e)) {
+      console.error('LocalStorage quota exceeded! Moving to emergency store.');
+    } else {
+      console.error('Failed to save content to localStorage:', e);
+    }
+  }
+
+  if (await writeFallbackDocument(session, html)) {
+    if (!usingFallback) {
+      usingFallback = true;
+      // The localStorage copy is now stale; remove it so a reload picks up the emergency copy
+      try {
+        localStorage.removeItem(storageKey('content', session));
+      } catch (e) {
+        console.error('Failed to remove stale localStorage content:', e);
+      }
+    }
+    return 'fallback';
+  }
+
+  return 'failed';
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { Packer } from 'docx';
+import JSZip from 'jszip';
+import type { JSONContent } from '@tiptap/core';
+import { createDocxDocument, type DocxExportOptions } from './docxExport';
+
+interface ExpectedRun {
+  text: string;
+  // In pt
+  size: number;
+  font?: string;
+  bold?: boolean;
+  italics?: boolean;
+  underline?: boolean;
+  break?: boolean;
+}
+
+interface ExpectedParagraph {
+  style?: string;
+  // Sides with a paragraph border (a horizontal rule is a bottom border)
+  borders?: string[];
+  // Number format of the list level (bullet, decimal, lowerLetter, ...) and the level
+  list?: { format: string; level: number };
+  runs: ExpectedRun[];
+}
+
+interface DocxFixture {
+  description: string;
+  options?: Partial<DocxExportOptions>;
+  content: JSONContent[];
+  expected: ExpectedParagraph[];
+}
+
+const fixtures = import.meta.glob<DocxFixture>('./__fixtures__/docx/*.json', { eager: true, import: 'default' });
+
+const DEFAULT_OPTIONS: DocxExportOptions = {
+  baseFontSize: 12,
+  baseFontFamily: 'OpenDyslexic',
+  exportedAt: new Date(2026, 9, 19, 10, 30),
+};
+const METADATA = { name: 'Ola Nordmann', class: '10A', subject: 'Norsk' };
+
+const attr = (xml: string, pattern: string) => xml.match(new RegExp(`<${pattern}\\b[^>]*w:val="([^"]*)"`))?.[1];
+
+// The blocks between <w:p> and </w:p> (or <w:r> and </w:r>), not <w:pPr>/<w:rPr>
+const elements = (xml: string, tag: string) =>
+  Array.from(xml.matchAll(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'g')), match => match[1]);
+
+// Number format by numId and level, from word/numbering.xml
+function readNumbering(xml: string) {
+  const abstractFormats = new Map<string, Map<number, string>>();
+  for (const [, id, body] of xml.matchAll(/<w:abstractNum\b[^>]*w:abstractNumId="(\d+)"[^>]*>([\s\S]*?)<\/w:abstractNum>/g)) {
+    const levels = new Map<number, string>();
+    for (const [, level, levelBody] of body.matchAll(/<w:lvl\b[^>]*w:ilvl="(\d+)"[^>]*>([\s\S]*?)<\/w:lvl>/g)) {
+      levels.set(Number(level), attr(levelBody, 'w:numFmt') ?? '');
+    }
+    abstractFormats.set(id, levels);
+  }
+  const formats = new Map<string, Map<number, string>>();
+  for (const [, numId, body] of xml.matchAll(/<w:num\b[^>]*w:numId="(\d+)"[^>]*>([\s\S]*?)<\/w:num>/g)) {
+    formats.set(numId, abstractFormats.get(attr(body, 'w:abstractNumId') ?? '') ?? new Map());
+  }
+  return formats;
+}
+
+async function exportFixture(fixture: DocxFixture) {
+  const document = createDocxDocument(fixture.content, METADATA, { ...DEFAULT_OPTIONS, ...fixture.options });
+  const zip = await JSZip.loadAsync(await Packer.toBuffer(document));
+  const documentXml = await zip.file('word/document.xml')!.async('string');
+  const numbering = readNumbering(await zip.file('word/numbering.xml')!.async('string'));
+  const baseFont = fixture.options?.baseFontFamily ?? DEFAULT_OPTIONS.baseFontFamily;
+
+  const body = documentXml.slice(documentXml.indexOf('<w:body>'), documentXml.indexOf('<w:sectPr'));
+  return elements(body, 'w:p').map(paragraph => {
+    const numId = attr(paragraph, 'w:numId');
+    const level = Number(attr(paragraph, 'w:ilvl'));
+    const result: ExpectedParagraph = {
+      runs: elements(paragraph, 'w:r').map(run => {
+        const font = run.match(/<w:rFonts\b[^>]*w:ascii="([^"]*)"/)?.[1];
+        const parsed: ExpectedRun = {
+          text: elements(run, 'w:t').join(''),
+          size: Number(attr(run, 'w:sz')) / 2,
+        };
+        // Only fonts other than the base font are listed in the fixtures
+        if (font && font !== baseFont) parsed.font = font;
+        if (/<w:b\/>/.test(run)) parsed.bold = true;
+        if (/<w:i\/>/.test(run)) parsed.italics = true;
+        if (/<w:u\b/.test(run)) parsed.underline = true;
+        if (/<w:br\/>/.test(run)) parsed.break = true;
+        return parsed;
+      }),
+    };
+    const style = attr(paragraph, 'w:pStyle');
+    if (style) result.style = style;
+    const borders = paragraph.match(/<w:pBdr>([\s\S]*?)<\/w:pBdr>/)?.[1];
+    if (borders) result.borders = Array.from(borders.matchAll(/<w:(\w+)\b/g), match => match[1]);
+    if (numId) result.list = { format: numbering.get(numId)?.get(level) ?? '', level };
+    return result;
+  });
+}
+
+describe('createDocxDocument', () => {
+  it('has fixtures', () => {
+    expect(Object.keys(fixtures).length).toBeGreaterThan(0);
+  });
+
+  Object.entries(fixtures).forEach(([path, fixture]) => {
+    it(`${path.split('/').pop()}: ${fixture.description}`, async () => {
+      expect(await exportFixture(fixture)).toEqual(fixture.expected);
+    });
+  });
+});
@@ -0,0 +1,306 @@
+/**
+ * DOCX export.
+ * Turns TipTap JSON into a docx Document without touching the editor or the DOM,
+ * so it can run headless.
+ */
+
+import {
+  Document, Paragraph, TextRun, AlignmentType, LevelFormat,
+  Header, Footer, PageNumber, Tab, TabStopType, BorderStyle, HeadingLevel
+} from 'docx';
+import type { JSONContent } from '@tiptap/core';
+import {
+  formatExportTimestamp, getHeaderParts, getHeadingLevel, HEADING_FONT_SIZES, type ExportMetadata
+} from './exportMetadata';
+
+export interface DocxExportOptions {
+  baseFontSize: number;
+  baseFontFamily: string;
+  // Defaults to now
+  exportedAt?: Date;
+}
+
+// A4 in twips with the same margins as the editor page (2cm top/bottom, 2.5cm sides)
+export const PAGE_TWIPS = { width: 11906, height: 16838, marginX: 1417, marginY: 1134 };
+
+const HEADING_LEVELS: Record<number, typeof HeadingLevel[keyof typeof HeadingLevel]> = {
+  1: HeadingLevel.HEADING_1,
+  2: HeadingLevel.HEADING_2,
+  3: HeadingLevel.HEADING_3,
+};
+
+// Run formatting a block gives its text unless a mark says otherwise
+interface RunDefaults {
+  size?: number;
+  bold?: boolean;
+  italics?: boolean;
+}
+
+/**
+ * Builds the Word document for a TipTap document's top-level content.
+ */
+export function createDocxDocument(
+  content: JSONContent[],
+  metadata: ExportMetadata,
+  options: DocxExportOptions,
+): Document {
+  const baseFontSize = options.baseFontSize;
+  const baseFont = options.baseFontFamily;
+
+  // Helper function to extract text runs from a paragraph node
+  const getTextRuns = (paragraphNode: JSONContent, defaults: RunDefaults = {}): TextRun[] => {
+    const blockSize = defaults.size || baseFontSize;
+    return paragraphNode.content?.map((child: JSONContent) => {
+      let markSize = child.marks?.find((m) => m.type === 'fontSize')?.attrs?.fontSize;
+      if (!markSize) {
+        markSize = child.marks?.find((m) => m.type === 'textStyle')?.attrs?.fontSize;
+      }
+      const finalSize = markSize ? parseInt(markSize.replace('px', '')) : blockSize;
+      const fontFamily = child.marks?.find((m) => m.type === 'textStyle')?.attrs?.fontFamily;
+
+      return new TextRun({
+        text: child.text || '',
+        break: child.type === 'hardBreak' ? 1 : undefined,
+        bold: defaults.bold || child.marks?.some((m) => m.type === 'bold'),
+        italics: defaults.italics || child.marks?.some((m) => m.type === 'italic'),
+        underline: child.marks?.some((m) => m.type === 'underline') ? {} : undefined,
+        size: finalSize * 2,
+        font: fontFamily || baseFont,
+      });
+    }) || [new TextRun({ text: "", size: blockSize * 2, font: baseFont })];
+  };
+
+  // Recursively process TipTap nodes into docx paragraphs
+  const processNodes = (
+    nodes: JSONContent[],
+    listType?: 'bullet' | 'number',
+    depth: number = 0,
+    inQuote: boolean = false,
+  ): Paragraph[] => {
+    const paragraphs: Paragraph[] = [];
+
+    nodes?.forEach((node: JSONContent) => {
+      if (node.type === 'paragraph') {
+        // Regular paragraph or paragraph inside a list item
+        const paragraph = new Paragraph({
+          style: inQuote && !listType ? 'Quote' : undefined,
+          alignment: AlignmentType.LEFT,
+          spacing: { line: 360, before: 0, after: 120 },
+          bullet: listType === 'bullet' ? { level: depth } : undefined,
+          numbering: listType === 'number' ? { reference: 'default-numbering', level: depth } : undefined,
+          children: getTextRuns(node, { italics: inQuote }),
+        });
+        paragraphs.push(paragraph);
+      } else if (node.type === 'heading') {
+        const level = getHeadingLevel(node);
+        paragraphs.push(new Paragraph({
+          heading: HEADING_LEVELS[level],
+          alignment: AlignmentType.LEFT,
+          keepNext: true,
+          spacing: { line: 360, before: 240, after: 120 },
+          children: getTextRuns(node, { size: HEADING_FONT_SIZES[level], bold: true, italics: inQuote }),
+        }));
+      } else if (node.type === 'blockquote') {
+        paragraphs.push(...processNodes(node.content || [], listType, depth, true));
+      } else if (node.type === 'horizontalRule') {
+        // An empty paragraph with a bottom border, like Word's own "---" autoformat
+        paragraphs.push(new Paragraph({
+          spacing: { before: 0, after: 240 },
+          border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: '9CA3AF', space: 1 } },
+          children: [],
+        }));
+      } else if (node.type === 'bulletList') {
+        // Process bullet list items - route through listItem handler for proper nesting
+        node.content?.forEach((listItem: JSONContent) => {
+          if (listItem.type === 'listItem') {
+            paragraphs.push(...processNodes([listItem], 'bullet', depth, inQuote));
+          }
+        });
+      } else if (node.type === 'orderedList') {
+        // Process ordered list items - route through listItem handler for proper nesting
+        node.content?.forEach((listItem: JSONContent) => {
+          if (listItem.type === 'listItem') {
+            paragraphs.push(...processNodes([listItem], 'number', depth, inQuote));
+          }
+        });
+      } else if (node.type === 'listItem') {
+        // Direct listItem - check for nested lists inside
+        if (node.content) {
+          node.content.forEach((childNode: JSONContent) => {
+            if (childNode.type === 'bulletList' || childNode.type === 'orderedList') {
+              // Nested list - increase depth
+              paragraphs.push(...processNodes([childNode], undefined, depth + 1, inQuote));
+            } else {
+              paragraphs.push(...processNodes([childNode], listType, depth, inQuote));
+            }
+          });
+        }
+      } else {
+        // Fallback: try to extract text from unknown node types
+        if (node.content) {
+          paragraphs.push(...processNodes(node.content, listType, depth, inQuote));
+        }
+      }
+    });
+
+    return paragraphs;
+  };
+
+  const headerParts = getHeaderParts(metadata);
+  const exportedAt = formatExportTimestamp(options.exportedAt || new Date());
+
+  return new Document({
+    creator: metadata.name.trim() || 'Vestby prøve',
+    lastModifiedBy: metadata.name.trim() || 'Vestby prøve',
+    title: headerParts.join(' – ') || 'Besvarelse',
+    subject: metadata.subject.trim() || undefined,
+    description: `Levert med Vestby prøve ${exportedAt}`,
+    styles: {
+      // Named styles so headings show up in Word's navigation pane and quotes can be restyled
+      paragraphStyles: [
+        ...[1, 2, 3].map(level => ({
+          id: `Heading${level}`,
+          name: `Heading ${level}`,
+          basedOn: 'Normal',
+          next: 'Normal',
+          quickFormat: true,
+          run: { bold: true, size: HEADING_FONT_SIZES[level] * 2, font: baseFont, color: '000000' },
+          paragraph: { spacing: { before: 240, after: 120 }, keepNext: true },
+        })),
+        {
+          id: 'Quote',
+          name: 'Quote',
+          basedOn: 'Normal',
+          next: 'Normal',
+          quickFormat: true,
+          run: { italics: true, color: '374151' },
+          paragraph: {
+            indent: { left: 567 },
+            border: { left: { style: BorderStyle.SINGLE, size: 18, color: 'D1D5DB', space: 8 } },
+          },
+        },
+      ],
+    },
+    numbering: {
+      config: [
+        {
+          reference: 'default-numbering',
+          levels: [
+            {
+              level: 0,
+              format: LevelFormat.DECIMAL,
+              text: '%1.',
+              alignment: AlignmentType.LEFT,
+              style: { paragraph: { indent: { left: 720, hanging: 360 } } },
+            },
+            {
+              level: 1,
+              format: LevelFormat.LOWER_LETTER,
+              text: '%2.',
+              alignment: AlignmentType.LEFT,
+              style: { paragraph: { indent: { left: 1440, hanging: 360 } } },
+            },
+            {
+              level: 2,
+              format: LevelFormat.LOWER_ROMAN,
+              text: '%3.',
+              alignment: AlignmentType.LEFT,
+              style: { paragraph: { indent: { left: 2160, hanging: 360 } } },
+            },
+            {
+              level: 3,
+              format: LevelFormat.DECIMAL,
+              text: '%4.',
+              alignment: AlignmentType.LEFT,
+              style: { paragraph: { indent: { left: 2880, hanging: 360 } } },
+            },
+            {
+              level: 4,
+              format: LevelFormat.LOWER_LETTER,
+              text: '%5.',
+              alignment: AlignmentType.LEFT,
+              style: { paragraph: { indent: { left: 3600, hanging: 360 } } },
+            },
+            {
+              level: 5,
+              format: LevelFormat.LOWER_ROMAN,
+              text: '%6.',
+              alignment: AlignmentType.LEFT,
+              style: { paragraph: { indent: { left: 4320, hanging: 360 } } },
+            },
+            {
+              level: 6,
+              format: LevelFormat.DECIMAL,
+              text: '%7.',
+              alignment: AlignmentType.LEFT,
+              style: { paragraph: { indent: { left: 5040, hanging: 360 } } },
+            },
+            {
+              level: 7,
+              format: LevelFormat.LOWER_LETTER,
+              text: '%8.',
+              alignment: AlignmentType.LEFT,
+              style: { paragraph: { indent: { left: 5760, hanging: 360 } } },
+            },
+            {
+              level: 8,
+              format: LevelFormat.LOWER_ROMAN,
+              text: '%9.',
+              alignment: AlignmentType.LEFT,
+              style: { paragraph: { indent: { left: 6480, hanging: 360 } } },
+            },
+          ],
+        },
+      ],
+    },
+    sections: [
+      {
+        properties: {
+          page: {
+            size: { width: PAGE_TWIPS.width, height: PAGE_TWIPS.height },
+            margin: {
+              top: PAGE_TWIPS.marginY,
+              bottom: PAGE_TWIPS.marginY,
+              left: PAGE_TWIPS.marginX,
+              right: PAGE_TWIPS.marginX,
+              header: 567,
+              footer: 567,
+            },
+          },
+        },
+        headers: {
+          default: new Header({
+            children: [
+              new Paragraph({
+                tabStops: [{ type: TabStopType.RIGHT, position: 9072 }],
+                border: { bottom: { style: BorderStyle.SINGLE, size: 4, color: '9CA3AF', space: 4 } },
+                children: [
+                  new TextRun({ text: headerParts.join('  ·  '), size: 18, color: '6B7280', font: 'Arial' }),
+                  new TextRun({ children: [new Tab(), exportedAt], size: 18, color: '6B7280', font: 'Arial' }),
+                ],
+              }),
+            ],
+          }),
+        },
+        footers: {
+          default: new Footer({
+            children: [
+              new Paragraph({
+                alignment: AlignmentType.CENTER,
+                children: [
+                  new TextRun({
+                    children: ['Side ', PageNumber.CURRENT, ' av ', PageNumber.TOTAL_PAGES],
+                    size: 18,
+                    color: '6B7280',
+                    font: 'Arial',
+                  }),
+                ],
+              }),
+            ],
+          }),
+        },
+        children: processNodes(content),
+      },
+    ],
+  });
+}
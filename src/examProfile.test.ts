@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { loadProfile, parseProfile, ProfileError } from './examProfile';
+
+describe('parseProfile spellcheck modes', () => {
+  it('offers every installed language without a profile', () => {
+    expect(parseProfile({}, ['no', 'nn', 'de']).spellcheckModes).toEqual(['en', 'no', 'nn', 'de', 'auto', 'off']);
+  });
+
+  it('leaves out auto without a Norwegian dictionary', () => {
+    expect(parseProfile({}, ['de']).spellcheckModes).toEqual(['en', 'de', 'off']);
+  });
+
+  it('keeps the modes a profile lists', () => {
+    expect(parseProfile({ spellcheckModes: ['de', 'off'] }, ['no', 'de']).spellcheckModes).toEqual(['de', 'off']);
+  });
+});
+
+// The readable lines the error screen lists for a profile
+const problemsOf = (raw: unknown) => {
+  try {
+    parseProfile(raw, ['no', 'nn']);
+  } catch (e) {
+    expect(e).toBeInstanceOf(ProfileError);
+    return (e as ProfileError).problems;
+  }
+  throw new Error('The profile was accepted');
+};
+
+describe('parseProfile validation', () => {
+  it('rejects a profile that is not an object', () => {
+    expect(() => parseProfile(['en'])).toThrow(ProfileError);
+  });
+
+  it('names unknown keys', () => {
+    expect(problemsOf({ title: 'Norsk', fontSize: 14 })).toEqual(['Ukjent felt "fontSize".']);
+  });
+
+  it('rejects fonts it does not have', () => {
+    expect(problemsOf({ fonts: ['Comic Sans'] })).toEqual([expect.stringContaining('"fonts"')]);
+    expect(problemsOf({ fonts: ['Arial'], defaultFont: 'Verdana' })).toEqual(['"defaultFont" må være en av: Arial.']);
+  });
+
+  it('rejects font sizes outside 8 to 72 and defaults not in the list', () => {
+    expect(problemsOf({ fontSizes: [12, 100] })).toEqual(['"fontSizes" må være en liste med hele tall mellom 8 og 72.']);
+    expect(problemsOf({ fontSizes: [12, 14.5] })).toHaveLength(1);
+    expect(problemsOf({ fontSizes: [12, 16], defaultFontSize: 14 })).toEqual(['"defaultFontSize" må være en av: 12, 16.']);
+  });
+
+  it('rejects a word target where min is above max', () => {
+    expect(problemsOf({ wordTarget: { min: 500, max: 300 } }))
+      .toEqual(['"wordTarget.min" kan ikke være større enn "wordTarget.max".']);
+    expect(problemsOf({ wordTarget: { min: -1 } })).toHaveLength(1);
+    expect(parseProfile({ wordTarget: { min: 300 } }).wordTarget).toEqual({ min: 300, max: null });
+  });
+
+  it('rejects harperRules that are not rule names with true or false', () => {
+    expect(problemsOf({ harperRules: { LongSentences: 'off' } })).toEqual([expect.stringContaining('"harperRules"')]);
+    expect(problemsOf({ harperRules: { 'Long Sentences': false } })).toHaveLength(1);
+    expect(problemsOf({ harperRules: ['LongSentences'] })).toHaveLength(1);
+    expect(parseProfile({ harperRules: { LongSentences: false } }).harperRules).toEqual({ LongSentences: false });
+  });
+
+  it('lists every problem at once', () => {
+    expect(problemsOf({ colour: 'red', fonts: [], wordTarget: { min: 2, max: 1 } })).toHaveLength(3);
+  });
+});
+
+describe('loadProfile', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const withSearch = (search: string) => vi.stubGlobal('window', { location: { search } });
+
+  it('reads a base64 profile from the URL', async () => {
+    withSearch(`?profileData=${btoa(JSON.stringify({ title: 'Engelsk' }))}`);
+    expect((await loadProfile()).title).toBe('Engelsk');
+  });
+
+  it('rejects malformed base64', async () => {
+    withSearch('?profileData=%%%ikke-base64');
+    await expect(loadProfile()).rejects.toThrow('Prøveprofilen i nettadressen kunne ikke leses.');
+  });
+
+  it('rejects base64 that is not JSON', async () => {
+    withSearch(`?profileData=${btoa('title: Engelsk')}`);
+    await expect(loadProfile()).rejects.toBeInstanceOf(ProfileError);
+  });
+
+  it('rejects profile names that are not plain names', async () => {
+    withSearch('?profile=../secret');
+    await expect(loadProfile()).rejects.toThrow('Ugyldig profilnavn "../secret".');
+  });
+});
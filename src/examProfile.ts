@@ -0,0 +1,291 @@
+/**
+ * Teacher-configurable exam profiles.
+ * A profile is either a JSON file in public/profiles/ (?profile=name) or a
+ * base64-encoded JSON object in the URL (?profileData=...). Every field is optional;
+ * anything left out keeps the default behaviour.
+ */
+
+// Spellcheck modes: 'en' (Harper), 'auto' (English and Norwegian, chosen per paragraph),
+// 'off', or a Hunspell language code from public/dictionaries/manifest.json
+// ('no' for Bokmål, 'nn' for Nynorsk, ...)
+export type SpellcheckLanguage = string;
+
+export const FONT_OPTIONS = ['OpenDyslexic', 'Arial', 'Verdana'] as const;
+export type FontName = typeof FONT_OPTIONS[number];
+
+export const EXPORT_FIELDS = ['name', 'class', 'subject'] as const;
+export type ExportField = typeof EXPORT_FIELDS[number];
+
+export interface WordTarget {
+  min: number | null;
+  max: number | null;
+}
+
+export interface ExamProfile {
+  // Shown in the footer so students can see which profile is active
+  title: string | null;
+  spellcheckModes: SpellcheckLanguage[];
+  defaultSpellcheck: SpellcheckLanguage;
+  allowHarper: boolean;
+  fonts: FontName[];
+  defaultFont: FontName;
+  fontSizes: number[];
+  defaultFontSize: number;
+  wordTarget: WordTarget | null;
+  requiredExportFields: ExportField[];
+  // Harper rules switched on (true) or off (false); rules left out keep Harper's default
+  harperRules: Record<string, boolean>;
+}
+
+// Hunspell languages assumed when no manifest has been loaded
+const DEFAULT_HUNSPELL_CODES = ['no', 'nn'];
+
+// Norwegian dictionaries the 'auto' mode can pair with English
+const AUTO_HUNSPELL_CODES = ['no', 'nn'];
+
+/**
+ * Every mode available with these dictionaries: English, each Hunspell language,
+ * 'auto' when there is a Norwegian dictionary, and 'off'.
+ */
+const availableSpellcheckModes = (hunspellCodes: string[]): SpellcheckLanguage[] => [
+  'en',
+  ...hunspellCodes,
+  ...(hunspellCodes.some(code => AUTO_HUNSPELL_CODES.includes(code)) ? ['auto'] : []),
+  'off',
+];
+
+export const DEFAULT_PROFILE: ExamProfile = {
+  title: null,
+  // Without a profile every installed language is offered (see parseProfile)
+  spellcheckModes: availableSpellcheckModes(DEFAULT_HUNSPELL_CODES),
+  defaultSpellcheck: 'en',
+  allowHarper: true,
+  fonts: [...FONT_OPTIONS],
+  defaultFont: 'OpenDyslexic',
+  fontSizes: [12, 14, 16, 18, 20, 24, 30, 36],
+  defaultFontSize: 14,
+  wordTarget: null,
+  requiredExportFields: [...EXPORT_FIELDS],
+  harperRules: {},
+};
+
+const PROFILE_PARAM = 'profile';
+const PROFILE_DATA_PARAM = 'profileData';
+
+/**
+ * Thrown when a profile cannot be loaded or does not validate.
+ * `problems` holds one readable line per issue for the error screen.
+ */
+export class ProfileError extends Error {
+  problems: string[];
+
+  constructor(message: string, problems: string[] = []) {
+    super(message);
+    this.name = 'ProfileError';
+    this.problems = problems;
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validates raw JSON and fills in defaults for missing fields.
+ * `hunspellCodes` are the dictionary languages that exist on this server.
+ */
+export function parseProfile(raw: unknown, hunspellCodes: string[] = DEFAULT_HUNSPELL_CODES): ExamProfile {
+  if (!isRecord(raw)) {
+    throw new ProfileError('Profilen må være et JSON-objekt.');
+  }
+
+  const problems: string[] = [];
+  const profile: ExamProfile = { ...DEFAULT_PROFILE };
+  const spellcheckModes = availableSpellcheckModes(hunspellCodes);
+
+  const knownKeys = Object.keys(DEFAULT_PROFILE);
+  Object.keys(raw).forEach(key => {
+    if (!knownKeys.includes(key)) problems.push(`Ukjent felt "${key}".`);
+  });
+
+  if (raw.title !== undefined) {
+    if (typeof raw.title === 'string') profile.title = raw.title.trim() || null;
+    else problems.push('"title" må være tekst.');
+  }
+
+  if (raw.allowHarper !== undefined) {
+    if (typeof raw.allowHarper === 'boolean') profile.allowHarper = raw.allowHarper;
+    else problems.push('"allowHarper" må være true eller false.');
+  }
+
+  if (raw.spellcheckModes !== undefined) {
+    if (Array.isArray(raw.spellcheckModes) && raw.spellcheckModes.length > 0 &&
+      raw.spellcheckModes.every(m => spellcheckModes.includes(m))) {
+      profile.spellcheckModes = Array.from(new Set(raw.spellcheckModes as SpellcheckLanguage[]));
+    } else {
+      problems.push(`"spellcheckModes" må være en liste med en eller flere av: ${spellcheckModes.join(', ')}.`);
+    }
+  } else {
+    // Every language in the manifest, so a new language needs no profile to show up
+    profile.spellcheckModes = spellcheckModes;
+  }
+  if (!profile.allowHarper) {
+    // 'auto' needs Harper for the English paragraphs
+    profile.spellcheckModes = profile.spellcheckModes.filter(m => m !== 'en' && m !== 'auto');
+    if (profile.spellcheckModes.length === 0) profile.spellcheckModes = ['off'];
+  }
+
+  if (raw.defaultSpellcheck !== undefined) {
+    if (profile.spellcheckModes.includes(raw.defaultSpellcheck as SpellcheckLanguage)) {
+      profile.defaultSpellcheck = raw.defaultSpellcheck as SpellcheckLanguage;
+    } else {
+      problems.push(`"defaultSpellcheck" må være en av: ${profile.spellcheckModes.join(', ')}.`);
+    }
+  } else if (!profile.spellcheckModes.includes(profile.defaultSpellcheck)) {
+    profile.defaultSpellcheck = profile.spellcheckModes[0];
+  }
+
+  if (raw.fonts !== undefined) {
+    if (Array.isArray(raw.fonts) && raw.fonts.length > 0 &&
+      raw.fonts.every(f => (FONT_OPTIONS as readonly unknown[]).includes(f))) {
+      profile.fonts = Array.from(new Set(raw.fonts as FontName[]));
+    } else {
+      problems.push(`"fonts" må være en liste med en eller flere av: ${FONT_OPTIONS.join(', ')}.`);
+    }
+  }
+
+  if (raw.defaultFont !== undefined) {
+    if (profile.fonts.includes(raw.defaultFont as FontName)) {
+      profile.defaultFont = raw.defaultFont as FontName;
+    } else {
+      problems.push(`"defaultFont" må være en av: ${profile.fonts.join(', ')}.`);
+    }
+  } else if (!profile.fonts.includes(profile.defaultFont)) {
+    profile.defaultFont = profile.fonts[0];
+  }
+
+  const isFontSize = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isInteger(value) && value >= 8 && value <= 72;
+
+  if (raw.fontSizes !== undefined) {
+    if (Array.isArray(raw.fontSizes) && raw.fontSizes.length > 0 && raw.fontSizes.every(isFontSize)) {
+      profile.fontSizes = Array.from(new Set(raw.fontSizes)).sort((a, b) => a - b);
+    } else {
+      problems.push('"fontSizes" må være en liste med hele tall mellom 8 og 72.');
+    }
+  }
+
+  if (raw.defaultFontSize !== undefined) {
+    if (isFontSize(raw.defaultFontSize) && profile.fontSizes.includes(raw.defaultFontSize)) {
+      profile.defaultFontSize = raw.defaultFontSize;
+    } else {
+      problems.push(`"defaultFontSize" må være en av: ${profile.fontSizes.join(', ')}.`);
+    }
+  } else if (!profile.fontSizes.includes(profile.defaultFontSize)) {
+    profile.defaultFontSize = profile.fontSizes[0];
+  }
+
+  if (raw.wordTarget !== undefined && raw.wordTarget !== null) {
+    const target = raw.wordTarget;
+    const isCount = (value: unknown) => value === undefined || value === null ||
+      (typeof value === 'number' && Number.isInteger(value) && value > 0);
+
+    if (isRecord(target) && isCount(target.min) && isCount(target.max) && (target.min ?? target.max) != null) {
+      const min = (target.min as number | undefined) ?? null;
+      const max = (target.max as number | undefined) ?? null;
+      if (min !== null && max !== null && min > max) {
+        problems.push('"wordTarget.min" kan ikke være større enn "wordTarget.max".');
+      } else {
+        profile.wordTarget = { min, max };
+      }
+    } else {
+      problems.push('"wordTarget" må ha "min" og/eller "max" som positive hele tall.');
+    }
+  }
+
+  if (raw.requiredExportFields !== undefined) {
+    if (Array.isArray(raw.requiredExportFields) &&
+      raw.requiredExportFields.every(f => (EXPORT_FIELDS as readonly unknown[]).includes(f))) {
+      profile.requiredExportFields = Array.from(new Set(raw.requiredExportFields as ExportField[]));
+    } else {
+      problems.push(`"requiredExportFields" må være en liste med: ${EXPORT_FIELDS.join(', ')}.`);
+    }
+  }
+
+  if (raw.harperRules !== undefined) {
+    // Rule names are checked against Harper when the worker starts, since they depend on its version
+    if (isRecord(raw.harperRules) &&
+      Object.entries(raw.harperRules).every(([rule, on]) => /^\w+$/.test(rule) && typeof on === 'boolean')) {
+      profile.harperRules = raw.harperRules as Record<string, boolean>;
+    } else {
+      problems.push('"harperRules" må være et objekt med regelnavn og true eller false, f.eks. { "LongSentences": false }.');
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new ProfileError('Prøveprofilen inneholder feil.', problems);
+  }
+
+  return profile;
+}
+
+function decodeBase64Json(data: string): unknown {
+  // Accept both standard and URL-safe base64
+  const normalized = data.replace(/-/g, '+').replace(/_/g, '/');
+  const bytes = Uint8Array.from(atob(normalized), c => c.charCodeAt(0));
+  return JSON.parse(new TextDecoder().decode(bytes));
+}
+
+/**
+ * Loads the profile named in the URL, or the default profile if none is given.
+ */
+export async function loadProfile(hunspellCodes: string[] = DEFAULT_HUNSPELL_CODES): Promise<ExamProfile> {
+  const params = new URLSearchParams(window.location.search);
+  const inline = params.get(PROFILE_DATA_PARAM);
+  const name = params.get(PROFILE_PARAM);
+
+  if (inline) {
+    let raw: unknown;
+    try {
+      raw = decodeBase64Json(inline);
+    } catch (e) {
+      throw new ProfileError('Prøveprofilen i nettadressen kunne ikke leses.', [String(e)]);
+    }
+    return parseProfile(raw, hunspellCodes);
+  }
+
+  if (name) {
+    if (!/^[\w-]+$/.test(name)) {
+      throw new ProfileError(`Ugyldig profilnavn "${name}".`, ['Profilnavn kan bare inneholde bokstaver, tall, "-" og "_".']);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${import.meta.env.BASE_URL}profiles/${name}.json`);
+    } catch (e) {
+      throw new ProfileError(`Kunne ikke hente prøveprofilen "${name}".`, [String(e)]);
+    }
+    if (!response.ok) {
+      throw new ProfileError(`Fant ikke prøveprofilen "${name}".`, [`Serveren svarte ${response.status}.`]);
+    }
+
+    let raw: unknown;
+    try {
+      raw = await response.json();
+    } catch (e) {
+      throw new ProfileError(`Prøveprofilen "${name}" er ikke gyldig JSON.`, [String(e)]);
+    }
+    return parseProfile(raw, hunspellCodes);
+  }
+
+  return parseProfile({}, hunspellCodes);
+}
+
+/**
+ * The Norwegian dictionary 'auto' mode uses: the first one the profile offers on
+ * its own, otherwise the first one installed.
+ */
+export function autoHunspellLanguage(profile: ExamProfile, hunspellCodes: string[]): string {
+  return profile.spellcheckModes.find(mode => AUTO_HUNSPELL_CODES.includes(mode) && hunspellCodes.includes(mode))
+    ?? hunspellCodes.find(code => AUTO_HUNSPELL_CODES.includes(code))
+    ?? AUTO_HUNSPELL_CODES[0];
+}
@@ -0,0 +1,24 @@
+/**
+ * Student details and formatting shared by the DOCX and PDF exports.
+ */
+
+export interface ExportMetadata {
+  name: string;
+  class: string;
+  subject: string;
+}
+
+// Date and time for export headers, e.g. "19.10.2026 kl. 10.30"
+export const formatExportTimestamp = (date: Date) =>
+  `${date.toLocaleDateString('nb-NO')} kl. ${date.getHours().toString().padStart(2, '0')}.${date.getMinutes().toString().padStart(2, '0')}`;
+
+// The non-empty fields, in header order
+export const getHeaderParts = (metadata: ExportMetadata) =>
+  [metadata.name, metadata.class, metadata.subject].map(p => p.trim()).filter(Boolean);
+
+// Heading sizes in pt, matching the .ProseMirror h1–h3 sizes in index.css (px in the editor)
+export const HEADING_FONT_SIZES: Record<number, number> = { 1: 36, 2: 30, 3: 24 };
+
+// Heading levels outside 1–3 (e.g. from older content) are treated as the nearest allowed level
+export const getHeadingLevel = (node: { attrs?: Record<string, unknown> }) =>
+  Math.min(Math.max(Number(node.attrs?.level) || 1, 1), 3);
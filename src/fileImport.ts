@@ -0,0 +1,287 @@
+/**
+ * Import of .docx and .txt files into TipTap content.
+ * The .docx reader keeps paragraphs, run formatting (bold, italic, underline,
+ * size, font), bulleted/numbered lists including nesting, headings, quotes and
+ * horizontal rules.
+ */
+
+import JSZip from 'jszip';
+import type { JSONContent } from '@tiptap/core';
+
+export interface ImportOptions {
+  // Fonts and sizes the exam profile allows; anything else falls back to the default
+  fonts: string[];
+  fontSizes: number[];
+}
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+type ListType = 'bulletList' | 'orderedList';
+
+/**
+ * Thrown for files that cannot be imported, with a message meant for the student.
+ */
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+const paragraph = (content: JSONContent[] = []): JSONContent =>
+  content.length > 0 ? { type: 'paragraph', content } : { type: 'paragraph' };
+
+/**
+ * Plain text: blank lines separate paragraphs, single line breaks become hard breaks.
+ * This matches what the TXT backup export writes.
+ */
+export function parseText(text: string): JSONContent {
+  const blocks = text.replace(/\r\n?/g, '\n').split(/\n[^\S\n]*\n/);
+  const content = blocks.map(block => {
+    const lines = block.split('\n');
+    const inline: JSONContent[] = [];
+    lines.forEach((line, i) => {
+      if (i > 0) inline.push({ type: 'hardBreak' });
+      if (line.length > 0) inline.push({ type: 'text', text: line });
+    });
+    return paragraph(inline);
+  });
+  return { type: 'doc', content: content.length > 0 ? content : [paragraph()] };
+}
+
+const wChildren = (el: Element, localName: string) =>
+  Array.from(el.childNodes).filter((n): n is Element =>
+    n.nodeType === 1 && (n as Element).namespaceURI === W_NS && (n as Element).localName === localName);
+
+const wChild = (el: Element | null | undefined, localName: string) =>
+  el ? wChildren(el, localName)[0] || null : null;
+
+const wAttr = (el: Element | null, name: string) => el ? el.getAttributeNS(W_NS, name) ?? el.getAttribute(`w:${name}`) : null;
+
+// <w:b/>, <w:b w:val="true"/> and <w:b w:val="1"/> are on; w:val="0"/"false" is off
+const isToggleOn = (el: Element | null) => {
+  if (!el) return false;
+  const val = wAttr(el, 'val');
+  return val === null || val === '' || !['0', 'false', 'off', 'none'].includes(val);
+};
+
+/**
+ * Maps numId + level to bullet or ordered, using word/numbering.xml.
+ */
+function readNumbering(xml: Document | null): (numId: string, level: number) => ListType {
+  const formats = new Map<string, Map<number, string>>();
+  const numToAbstract = new Map<string, string>();
+
+  if (xml) {
+    Array.from(xml.getElementsByTagNameNS(W_NS, 'abstractNum')).forEach(abstract => {
+      const levels = new Map<number, string>();
+      wChildren(abstract, 'lvl').forEach(lvl => {
+        const level = Number(wAttr(lvl, 'ilvl')) || 0;
+        levels.set(level, wAttr(wChild(lvl, 'numFmt'), 'val') || 'decimal');
+      });
+      formats.set(wAttr(abstract, 'abstractNumId') || '', levels);
+    });
+    Array.from(xml.getElementsByTagNameNS(W_NS, 'num')).forEach(num => {
+      numToAbstract.set(wAttr(num, 'numId') || '', wAttr(wChild(num, 'abstractNumId'), 'val') || '');
+    });
+  }
+
+  return (numId, level) => {
+    const format = formats.get(numToAbstract.get(numId) || '')?.get(level);
+    return format === undefined || format === 'bullet' ? 'bulletList' : 'orderedList';
+  };
+}
+
+/**
+ * Maps style ids to their built-in names. Word stores "heading 1" and "Quote" under
+ * those English names even when the id is localized (e.g. "Overskrift1").
+ */
+function readStyleNames(xml: Document | null): Map<string, string> {
+  const names = new Map<string, string>();
+  if (!xml) return names;
+  Array.from(xml.getElementsByTagNameNS(W_NS, 'style')).forEach(style => {
+    const id = wAttr(style, 'styleId');
+    const name = wAttr(wChild(style, 'name'), 'val');
+    if (id && name) names.set(id, name.toLowerCase());
+  });
+  return names;
+}
+
+// Headings and quotes carry their bold/italic/size through the style, not as marks
+const withoutMarks = (content: JSONContent[], types: string[], dropSize = false) => content.map(node => {
+  if (!node.marks) return node;
+  const marks = node.marks
+    .filter(mark => !types.includes(mark.type))
+    .map(mark => {
+      if (!dropSize || mark.type !== 'textStyle' || !mark.attrs?.fontSize) return mark;
+      const { fontSize: _fontSize, ...attrs } = mark.attrs;
+      return { ...mark, attrs };
+    })
+    .filter(mark => mark.type !== 'textStyle' || Object.keys(mark.attrs || {}).length > 0);
+  const { marks: _marks, ...rest } = node;
+  return marks.length > 0 ? { ...rest, marks } : rest;
+});
+
+const nearest = (value: number, options: number[]) =>
+  options.reduce((best, option) => Math.abs(option - value) < Math.abs(best - value) ? option : best, options[0]);
+
+function readRuns(p: Element, options: ImportOptions): JSONContent[] {
+  const content: JSONContent[] = [];
+
+  // Only runs that belong to this paragraph (not to text boxes nested inside it)
+  const runs = Array.from(p.getElementsByTagNameNS(W_NS, 'r')).filter(r => {
+    let parent = r.parentElement;
+    while (parent && !(parent.namespaceURI === W_NS && parent.localName === 'p')) parent = parent.parentElement;
+    return parent === p;
+  });
+
+  runs.forEach(r => {
+    const rPr = wChild(r, 'rPr');
+    const marks: JSONContent['marks'] = [];
+    if (isToggleOn(wChild(rPr, 'b'))) marks.push({ type: 'bold' });
+    if (isToggleOn(wChild(rPr, 'i'))) marks.push({ type: 'italic' });
+    if (isToggleOn(wChild(rPr, 'u'))) marks.push({ type: 'underline' });
+
+    const textStyle: Record<string, string> = {};
+    const size = Number(wAttr(wChild(rPr, 'sz'), 'val'));
+    if (size > 0 && options.fontSizes.length > 0) {
+      // w:sz is in half-points; the editor treats px like the export treats pt
+      textStyle.fontSize = `${nearest(size / 2, options.fontSizes)}px`;
+    }
+    const font = wAttr(wChild(rPr, 'rFonts'), 'ascii');
+    if (font && options.fonts.includes(font)) textStyle.fontFamily = font;
+    if (Object.keys(textStyle).length > 0) marks.push({ type: 'textStyle', attrs: textStyle });
+
+    let text = '';
+    const flush = () => {
+      if (text.length === 0) return;
+      content.push(marks.length > 0 ? { type: 'text', text, marks } : { type: 'text', text });
+      text = '';
+    };
+
+    Array.from(r.childNodes).forEach(node => {
+      if (node.nodeType !== 1 || (node as Element).namespaceURI !== W_NS) return;
+      const el = node as Element;
+      if (el.localName === 't') text += el.textContent || '';
+      else if (el.localName === 'tab') text += '\t';
+      else if (el.localName === 'noBreakHyphen') text += '-';
+      else if (el.localName === 'br' || el.localName === 'cr') {
+        flush();
+        content.push({ type: 'hardBreak' });
+      }
+    });
+    flush();
+  });
+
+  return content;
+}
+
+/**
+ * Reads a .docx file into a TipTap document.
+ */
+export async function parseDocx(data: ArrayBuffer, options: ImportOptions): Promise<JSONContent> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch (e) {
+    throw new ImportError('Filen er ikke en gyldig Word-fil (.docx).');
+  }
+
+  const documentXml = await zip.file('word/document.xml')?.async('string');
+  if (!documentXml) throw new ImportError('Fant ikke tekst i Word-filen.');
+  const numberingXml = await zip.file('word/numbering.xml')?.async('string');
+  const stylesXml = await zip.file('word/styles.xml')?.async('string');
+
+  const parser = new DOMParser();
+  const xml = parser.parseFromString(documentXml, 'application/xml');
+  if (xml.getElementsByTagName('parsererror').length > 0) {
+    throw new ImportError('Word-filen er skadet og kan ikke leses.');
+  }
+  const listTypeOf = readNumbering(numberingXml ? parser.parseFromString(numberingXml, 'application/xml') : null);
+  const styleNames = readStyleNames(stylesXml ? parser.parseFromString(stylesXml, 'application/xml') : null);
+
+  const body = xml.getElementsByTagNameNS(W_NS, 'body')[0];
+  if (!body) throw new ImportError('Fant ikke tekst i Word-filen.');
+
+  const doc: JSONContent[] = [];
+  // Open lists, one entry per nesting level
+  const stack: { type: ListType; list: JSONContent }[] = [];
+  // Consecutive quote paragraphs share one block quote
+  let quote: JSONContent | null = null;
+
+  const lastItemOf = (list: JSONContent) => {
+    const items = list.content!;
+    if (items.length === 0) items.push({ type: 'listItem', content: [paragraph()] });
+    return items[items.length - 1];
+  };
+
+  Array.from(body.getElementsByTagNameNS(W_NS, 'p')).forEach(p => {
+    // Skip paragraphs inside text boxes; their text is rarely part of the flow
+    if (p.parentElement && p.parentElement.localName === 'txbxContent') return;
+
+    const inline = readRuns(p, options);
+    const pPr = wChild(p, 'pPr');
+    const numPr = wChild(pPr, 'numPr');
+    const numId = wAttr(wChild(numPr, 'numId'), 'val');
+    const styleId = wAttr(wChild(pPr, 'pStyle'), 'val') || '';
+    const styleName = styleNames.get(styleId) || styleId.toLowerCase();
+
+    if (!numPr || !numId || numId === '0') {
+      stack.length = 0;
+      const heading = /^heading ?([1-9])$/.exec(styleName);
+      const isQuote = styleName === 'quote' || styleName === 'intense quote';
+      if (!isQuote) quote = null;
+
+      if (heading) {
+        const content = withoutMarks(inline, ['bold'], true);
+        const level = Math.min(Number(heading[1]), 3);
+        doc.push(content.length > 0
+          ? { type: 'heading', attrs: { level }, content }
+          : { type: 'heading', attrs: { level } });
+      } else if (isQuote) {
+        if (!quote) {
+          quote = { type: 'blockquote', content: [] };
+          doc.push(quote);
+        }
+        quote.content!.push(paragraph(withoutMarks(inline, ['italic'])));
+      } else if (inline.length === 0 && wChild(wChild(pPr, 'pBdr'), 'bottom')) {
+        // An empty paragraph with only a bottom border is how Word draws a horizontal rule
+        doc.push({ type: 'horizontalRule' });
+      } else {
+        doc.push(paragraph(inline));
+      }
+      return;
+    }
+
+    quote = null;
+
+    const level = Math.min(Number(wAttr(wChild(numPr, 'ilvl'), 'val')) || 0, 8);
+    const type = listTypeOf(numId, level);
+
+    while (stack.length > level + 1) stack.pop();
+    if (stack.length === level + 1 && stack[level].type !== type) stack.pop();
+    while (stack.length < level + 1) {
+      const list: JSONContent = { type, content: [] };
+      if (stack.length === 0) {
+        doc.push(list);
+      } else {
+        lastItemOf(stack[stack.length - 1].list).content!.push(list);
+      }
+      stack.push({ type, list });
+    }
+
+    stack[level].list.content!.push({ type: 'listItem', content: [paragraph(inline)] });
+  });
+
+  return { type: 'doc', content: doc.length > 0 ? doc : [paragraph()] };
+}
+
+/**
+ * Reads a .docx or .txt file chosen by the student.
+ */
+export async function importFile(file: File, options: ImportOptions): Promise<JSONContent> {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.docx')) return parseDocx(await file.arrayBuffer(), options);
+  if (name.endsWith('.txt')) return parseText(await file.text());
+  throw new ImportError('Bare Word-filer (.docx) og tekstfiler (.txt) kan åpnes.');
+}
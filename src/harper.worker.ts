@@ -6,10 +6,71 @@
 
 import * as harper from "harper.js";
 
+// The single-file build has no separate files to load, so it uses the copy of the binary inlined in harper.js
+const binary = import.meta.env.MODE === 'singlefile' ? harper.binaryInlined : harper.binary;
+
 let americanLinter: harper.LocalLinter | null = null;
 let britishLinter: harper.LocalLinter | null = null;
 let isInitializing = false;
 
+// Words from the student's personal dictionary
+let personalWords: string[] = [];
+// Dictionary and ignore updates run one after another, and lints wait for them
+let pendingUpdates: Promise<void> = Promise.resolve();
+
+// Ignored lints as exported by Harper (a JSON list of context hashes)
+let ignoredLints = '';
+
+// Rules the exam profile switches on or off; the others keep Harper's defaults
+let lintConfigOverrides: Record<string, boolean> = {};
+
+async function syncIgnoredLints() {
+  for (const linter of [americanLinter, britishLinter]) {
+    if (!linter) continue;
+    await linter.clearIgnoredLints();
+    if (ignoredLints) await linter.importIgnoredLints(ignoredLints);
+  }
+}
+
+async function syncWords() {
+  for (const linter of [americanLinter, britishLinter]) {
+    if (!linter) continue;
+    await linter.clearWords();
+    if (personalWords.length > 0) await linter.importWords(personalWords);
+  }
+}
+
+async function syncLintConfig() {
+  for (const linter of [americanLinter, britishLinter]) {
+    if (!linter) continue;
+    const defaults = await linter.getDefaultLintConfig();
+    const config: harper.LintConfig = { ...defaults };
+    Object.entries(lintConfigOverrides).forEach(([rule, enabled]) => {
+      // Rule names change between Harper versions, and setLintConfig rejects unknown ones
+      if (rule in defaults) config[rule] = enabled;
+      else console.warn(`Unknown Harper rule "${rule}" in the exam profile.`);
+    });
+    await linter.setLintConfig(config);
+  }
+}
+
+// Tells the editor which rules exist and which of them are on, for the rule settings
+async function postRules() {
+  if (!americanLinter) return;
+  const [descriptions, defaults, config] = await Promise.all([
+    americanLinter.getLintDescriptions(),
+    americanLinter.getDefaultLintConfig(),
+    americanLinter.getLintConfig(),
+  ]);
+  const rules = Object.keys(descriptions).sort().map(name => ({
+    name,
+    description: descriptions[name],
+    enabled: Boolean(config[name] ?? defaults[name]),
+    defaultEnabled: Boolean(defaults[name]),
+  }));
+  self.postMessage({ type: 'rules', rules });
+}
+
 async function init() {
   if (isInitializing) return;
   if (americanLinter && britishLinter) return;
@@ -19,7 +80,7 @@ async function init() {
     if (!americanLinter) {
       console.log("Initializing Harper American Linter...");
       americanLinter = new harper.LocalLinter({
-        binary: harper.binary,
+        binary,
         dialect: harper.Dialect.American,
       });
       await americanLinter.setup();
@@ -27,14 +88,18 @@ async function init() {
     if (!britishLinter) {
       console.log("Initializing Harper British Linter...");
       britishLinter = new harper.LocalLinter({
-        binary: harper.binary,
+        binary,
         dialect: harper.Dialect.British,
       });
       await britishLinter.setup();
     }
     
     if (americanLinter && britishLinter) {
+      await syncWords();
+      await syncIgnoredLints();
+      await syncLintConfig();
       self.postMessage({ type: 'ready' });
+      await postRules();
     }
   } catch (e) {
     console.error("Failed to initialize Harper:", e);
@@ -44,8 +109,121 @@ async function init() {
   }
 }
 
+interface LintResult {
+  message: string;
+  span: { start: number; end: number };
+  suggestions: string[];
+  category: string;
+  rule: string;
+  hash: string;
+}
+
+// Lints with the name of the rule that found them, so the editor can explain each rule
+async function lintWithRules(linter: harper.LocalLinter, text: string) {
+  const organized = await linter.organizedLints(text);
+  return Object.entries(organized).flatMap(([rule, lints]) => lints.map(lint => ({ rule, lint })));
+}
+
+/**
+ * Lints one paragraph with both dialects and merges the results.
+ */
+async function lintParagraph(text: string): Promise<LintResult[]> {
+  if (!americanLinter || !britishLinter || !text.trim()) return [];
+
+  const [americanLints, britishLints] = await Promise.all([
+    lintWithRules(americanLinter, text),
+    lintWithRules(britishLinter, text)
+  ]);
+
+  // We only want to report a spelling error if BOTH linters agree it's an error.
+  // For other categories (Grammar, etc.), we can probably just take one or merge them.
+  // Since the user specifically mentioned "colour" vs "color", we focus on Spelling.
+
+  // Context hashes identify a lint by its surroundings, so ignores survive edits elsewhere
+  const [americanHashes, britishHashes] = await Promise.all([
+    Promise.all(americanLints.map(({ lint }) => americanLinter!.contextHash(text, lint))),
+    Promise.all(britishLints.map(({ lint }) => britishLinter!.contextHash(text, lint))),
+  ]);
+
+  const formatLint = ({ rule, lint }: { rule: string, lint: harper.Lint }, hash: bigint): LintResult => {
+    const suggestions = lint.suggestions();
+    const kind = lint.lint_kind();
+    
+    const allSuggestions = suggestions.map(s => {
+      try {
+        // @ts-ignore
+        if (typeof s.get_replacement_text === 'function') {
+          // @ts-ignore
+          return String(s.get_replacement_text());
+        }
+        // @ts-ignore
+        return s.text || s.replacement || String(s);
+      } catch (e) {
+        return String(s);
+      }
+    });
+
+    return {
+      message: String(lint.message()),
+      span: {
+        start: Number(lint.span().start),
+        end: Number(lint.span().end)
+      },
+      suggestions: allSuggestions,
+      category: String(kind),
+      rule,
+      hash: String(hash)
+    };
+  };
+
+  const americanFormatted = americanLints.map((lint, i) => formatLint(lint, americanHashes[i]));
+  const britishFormatted = britishLints.map((lint, i) => formatLint(lint, britishHashes[i]));
+
+  // Merge strategy:
+  // 1. If a lint is in both, keep it (and merge suggestions).
+  // 2. If a lint is only in one, and it's NOT a spelling error, keep it.
+  // 3. If a lint is only in one, and it IS a spelling error, discard it (because the other dialect accepts it).
+
+  const finalResults: LintResult[] = [];
+  
+  // Helper to find a matching lint in another list
+  const findMatch = (lint: LintResult, list: LintResult[]) =>
+    list.find(l => l.span.start === lint.span.start && l.span.end === lint.span.end);
+
+  // Process American lints
+  americanFormatted.forEach(aLint => {
+    const bMatch = findMatch(aLint, britishFormatted);
+    if (bMatch) {
+      // It's in both. Merge suggestions and keep.
+      const mergedSuggestions = Array.from(new Set([...aLint.suggestions, ...bMatch.suggestions]));
+      finalResults.push({
+        ...aLint,
+        suggestions: mergedSuggestions
+      });
+    } else {
+      // Only in American. Keep if not spelling.
+      if (aLint.category !== 'Spelling') {
+        finalResults.push(aLint);
+      }
+    }
+  });
+
+  // Process British lints that weren't in American
+  britishFormatted.forEach(bLint => {
+    const aMatch = findMatch(bLint, americanFormatted);
+    if (!aMatch) {
+      // Only in British. Keep if not spelling.
+      if (bLint.category !== 'Spelling') {
+        finalResults.push(bLint);
+      }
+    }
+  });
+
+  return finalResults;
+}
+
 self.onmessage = async (e: MessageEvent) => {
-  const { text, type, version } = e.data;
+  const { paragraphs, type, version, words, ignored, hash, config } = e.data;
 
   if (type === 'dispose') {
     [americanLinter, britishLinter].forEach(l => {
@@ -68,97 +246,59 @@ self.onmessage = async (e: MessageEvent) => {
     return;
   }
 
+  if (type === 'set-words') {
+    personalWords = Array.isArray(words) ? words : [];
+    pendingUpdates = pendingUpdates
+      .then(syncWords)
+      .catch(e => console.error("Failed to update Harper dictionary:", e));
+    return;
+  }
+
+  if (type === 'set-ignored') {
+    ignoredLints = typeof ignored === 'string' ? ignored : '';
+    pendingUpdates = pendingUpdates
+      .then(syncIgnoredLints)
+      .catch(e => console.error("Failed to import ignored lints:", e));
+    return;
+  }
+
+  if (type === 'set-lint-config') {
+    lintConfigOverrides = config && typeof config === 'object' ? config : {};
+    pendingUpdates = pendingUpdates
+      .then(async () => {
+        await syncLintConfig();
+        await postRules();
+      })
+      .catch(e => console.error("Failed to update Harper rules:", e));
+    return;
+  }
+
+  if (type === 'ignore') {
+    // Both dialects must forget the lint, or the other one would still report it
+    pendingUpdates = pendingUpdates
+      .then(async () => {
+        await init();
+        if (!americanLinter || !britishLinter) return;
+        await americanLinter.ignoreLintHash(BigInt(hash));
+        await britishLinter.ignoreLintHash(BigInt(hash));
+        ignoredLints = await americanLinter.exportIgnoredLints();
+        self.postMessage({ type: 'ignored', ignored: ignoredLints });
+      })
+      .catch(e => console.error("Failed to ignore lint:", e));
+    return;
+  }
+
   if (type === 'lint') {
     await init();
+    await pendingUpdates;
     if (americanLinter && britishLinter) {
       try {
-        if (!text || text.trim().length === 0) {
-          self.postMessage({ type: 'results', results: [], version });
-          return;
+        // Each paragraph is linted on its own, so the editor can cache the results per paragraph
+        const results: LintResult[][] = [];
+        for (const paragraph of Array.isArray(paragraphs) ? paragraphs : []) {
+          results.push(await lintParagraph(String(paragraph)));
         }
-        
-        const [americanLints, britishLints] = await Promise.all([
-          americanLinter.lint(text),
-          britishLinter.lint(text)
-        ]);
-
-        // We only want to report a spelling error if BOTH linters agree it's an error.
-        // For other categories (Grammar, etc.), we can probably just take one or merge them.
-        // Since the user specifically mentioned "colour" vs "color", we focus on Spelling.
-
-        const formatLint = (lint: harper.Lint) => {
-          const suggestions = lint.suggestions();
-          const kind = lint.lint_kind();
-          
-          const allSuggestions = suggestions.map(s => {
-            try {
-              // @ts-ignore
-              if (typeof s.get_replacement_text === 'function') {
-                // @ts-ignore
-                return String(s.get_replacement_text());
-              }
-              // @ts-ignore
-              return s.text || s.replacement || String(s);
-            } catch (e) {
-              return String(s);
-            }
-          });
-
-          return {
-            message: String(lint.message()),
-            span: {
-              start: Number(lint.span().start),
-              end: Number(lint.span().end)
-            },
-            suggestions: allSuggestions,
-            category: String(kind)
-          };
-        };
-
-        const americanFormatted = americanLints.map(formatLint);
-        const britishFormatted = britishLints.map(formatLint);
-
-        // Merge strategy:
-        // 1. If a lint is in both, keep it (and merge suggestions).
-        // 2. If a lint is only in one, and it's NOT a spelling error, keep it.
-        // 3. If a lint is only in one, and it IS a spelling error, discard it (because the other dialect accepts it).
-
-        const finalResults: any[] = [];
-        
-        // Helper to find a matching lint in another list
-        const findMatch = (lint: any, list: any[]) => 
-          list.find(l => l.span.start === lint.span.start && l.span.end === lint.span.end);
-
-        // Process American lints
-        americanFormatted.forEach(aLint => {
-          const bMatch = findMatch(aLint, britishFormatted);
-          if (bMatch) {
-            // It's in both. Merge suggestions and keep.
-            const mergedSuggestions = Array.from(new Set([...aLint.suggestions, ...bMatch.suggestions]));
-            finalResults.push({
-              ...aLint,
-              suggestions: mergedSuggestions
-            });
-          } else {
-            // Only in American. Keep if not spelling.
-            if (aLint.category !== 'Spelling') {
-              finalResults.push(aLint);
-            }
-          }
-        });
-
-        // Process British lints that weren't in American
-        britishFormatted.forEach(bLint => {
-          const aMatch = findMatch(bLint, americanFormatted);
-          if (!aMatch) {
-            // Only in British. Keep if not spelling.
-            if (bLint.category !== 'Spelling') {
-              finalResults.push(bLint);
-            }
-          }
-        });
-
-        self.postMessage({ type: 'results', results: finalResults, version });
+        self.postMessage({ type: 'results', paragraphs, results, version });
       } catch (error) {
         console.error('Harper lint error:', error);
         self.postMessage({ type: 'error', error: String(error), version });
@@ -168,11 +308,3 @@ self.onmessage = async (e: MessageEvent) => {
     }
   }
 };
-
-
-
-
-
-
-
-
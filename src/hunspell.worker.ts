@@ -0,0 +1,270 @@
+/**
+ * Spellchecker worker using Typo.js with Hunspell dictionaries.
+ * Mirrors the Harper worker interface for compatibility with the existing UI.
+ * Languages come from public/dictionaries/manifest.json; send 'set-dictionary'
+ * with a language code to switch. Dictionaries marked with "grammar" in the
+ * manifest also get the Norwegian grammar rules from norwegianGrammar.ts.
+ */
+
+import Typo from 'typo-js';
+import { loadDictionaryManifest, fetchDictionaryFile, type DictionaryEntry } from './dictionaryRegistry';
+import { loadCompiledDictionary } from './compiledDictionary';
+import { CompoundAnalyser } from './compoundWords';
+import { checkGrammar, type GrammarVariant } from './norwegianGrammar';
+import { rankSuggestions, soundAlikeVariants } from './norwegianPhonetics';
+
+interface LoadedDictionary {
+    typo: Typo;
+    // Set for languages that write compounds as one word
+    compounds: CompoundAnalyser | null;
+    grammar: GrammarVariant | null;
+    phonetic: boolean;
+}
+
+let typo: Typo | null = null;
+let compounds: CompoundAnalyser | null = null;
+let grammar: GrammarVariant | null = null;
+let phonetic = false;
+// The language asked for, and the one `typo` currently holds
+let language = 'no';
+let activeLanguage: string | null = null;
+// Loaded (or loading) dictionaries, so switching back and forth is instant
+const dictionaries = new Map<string, Promise<LoadedDictionary>>();
+// Words from the student's personal dictionary
+let personalWords = new Set<string>();
+// Context fingerprints of lints the student has ignored
+let ignoredLints = new Set<string>();
+
+/**
+ * 53-bit string hash (cyrb53). Only the hash is stored, never the student's text.
+ */
+function hashString(input: string): string {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < input.length; i++) {
+        const ch = input.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+/**
+ * Identifies a lint by the word and its neighbours, like Harper's contextHash,
+ * so an ignore keeps working when text elsewhere in the document changes.
+ * `kind` keeps a grammar lint and a spelling lint on the same words apart.
+ */
+function contextHash(text: string, start: number, end: number, kind = 'Spelling'): string {
+    const before = text.slice(Math.max(0, start - 40), start).match(/[\p{L}\p{M}]+[^\p{L}\p{M}]*$/u)?.[0] || '';
+    const after = text.slice(end, end + 40).match(/^[^\p{L}\p{M}]*[\p{L}\p{M}]+/u)?.[0] || '';
+    return hashString(`${kind}\u0000${before.toLowerCase()}\u0000${text.slice(start, end)}\u0000${after.toLowerCase()}`);
+}
+
+// Expands the .aff/.dic files in the worker, for dictionaries that have not been compiled
+async function expandDictionary(entry: DictionaryEntry): Promise<Typo> {
+    const [affResponse, dicResponse] = await Promise.all([
+        fetchDictionaryFile(entry.aff),
+        fetchDictionaryFile(entry.dic)
+    ]);
+
+    if (!affResponse.ok || !dicResponse.ok) {
+        throw new Error(`Failed to fetch ${entry.aff} / ${entry.dic}`);
+    }
+
+    return new Typo(entry.locale, await affResponse.text(), await dicResponse.text());
+}
+
+async function loadDictionary(code: string): Promise<LoadedDictionary> {
+    const entry: DictionaryEntry | undefined = (await loadDictionaryManifest()).find(e => e.code === code);
+    if (!entry) throw new Error(`No dictionary for language "${code}" in the manifest`);
+
+    const instance = await loadCompiledDictionary(entry) ?? await expandDictionary(entry);
+
+    // A common word the dictionary must know, to catch broken files
+    if (entry.testWord && !instance.check(entry.testWord)) {
+        console.warn(`${entry.label} dictionary does not accept its test word "${entry.testWord}".`);
+    }
+
+    const analyser = entry.compounds ? new CompoundAnalyser(word => instance.check(word)) : null;
+
+    return { typo: instance, compounds: analyser, grammar: entry.grammar ?? null, phonetic: entry.phonetic === true };
+}
+
+async function init() {
+    const wanted = language;
+    if (typo && activeLanguage === wanted) return;
+
+    let loading = dictionaries.get(wanted);
+    if (!loading) {
+        loading = loadDictionary(wanted);
+        dictionaries.set(wanted, loading);
+    }
+
+    try {
+        const loaded = await loading;
+        // Another language was asked for while this one loaded
+        if (wanted !== language || activeLanguage === wanted) return;
+        typo = loaded.typo;
+        compounds = loaded.compounds;
+        grammar = loaded.grammar;
+        phonetic = loaded.phonetic;
+        activeLanguage = wanted;
+        self.postMessage({ type: 'ready', language: wanted });
+    } catch (e) {
+        dictionaries.delete(wanted);
+        console.error("Failed to initialize Hunspell spellchecker:", e);
+        self.postMessage({ type: 'error', error: String(e) });
+    }
+}
+
+interface LintResult {
+    message: string;
+    span: { start: number; end: number };
+    suggestions: string[];
+    category: string;
+    rule: string;
+    hash: string;
+}
+
+// Words with their inner hyphens and apostrophes ("e-post", "TV-serie", "Per's"), and
+// anything joined to digits, so numbers with units ("5km", "10-åring") are skipped whole
+const TOKEN_REGEX = /[\p{L}\p{M}\p{N}]+(?:['’-][\p{L}\p{M}\p{N}]+)*/gu;
+// Web and e-mail addresses are not words
+const ADDRESS_REGEX = /(?:https?:\/\/|www\.)\S+|[^\s@]+@[^\s@]+\.[\p{L}]+/giu;
+
+function isCorrect(word: string): boolean {
+    // A lowercase entry also covers the capitalised and all-caps forms, like in Hunspell
+    if (personalWords.has(word) || personalWords.has(word.toLowerCase())) return true;
+    // Abbreviations such as "NRK" and "FN"
+    if (word === word.toUpperCase() && word !== word.toLowerCase()) return true;
+    return typo!.check(word) || (compounds?.isCompound(word) ?? false);
+}
+
+function suggest(word: string): string[] {
+    const candidates = typo!.suggest(word, phonetic ? 8 : 5) || [];
+    if (!phonetic) return candidates;
+    // Spellings that sound like the word, which edit distance misses or ranks low
+    const soundAlikes = soundAlikeVariants(word).filter(variant => typo!.check(variant));
+    return rankSuggestions(word, [...candidates, ...soundAlikes]).slice(0, 5);
+}
+
+function lintText(text: string): LintResult[] {
+    if (!typo || !text.trim()) return [];
+
+    const results: LintResult[] = [];
+    const addresses = Array.from(text.matchAll(ADDRESS_REGEX), m => ({ start: m.index!, end: m.index! + m[0].length }));
+
+    const report = (word: string, start: number) => {
+        const end = start + word.length;
+        const hash = contextHash(text, start, end);
+        if (ignoredLints.has(hash)) return;
+
+        results.push({
+            message: `"${word}" kan være feilstavet.`,
+            span: { start, end },
+            suggestions: suggest(word),
+            category: 'Spelling',
+            rule: 'Hunspell',
+            hash
+        });
+    };
+
+    for (const match of text.matchAll(TOKEN_REGEX)) {
+        const token = match[0];
+        const start = match.index!;
+
+        // Skip single letters, numbers with or without units, and addresses
+        if (token.length < 2 || /\p{N}/u.test(token)) continue;
+        if (addresses.some(a => start < a.end && start + token.length > a.start)) continue;
+        if (isCorrect(token)) continue;
+
+        // Words the dictionary does not know as a whole are fine if each part is ("TV-serie", "Per's")
+        const parts = Array.from(token.matchAll(/[^'’-]+/g));
+        if (parts.length === 1) {
+            report(token, start);
+            continue;
+        }
+        parts.forEach(part => {
+            if (part[0].length >= 2 && !isCorrect(part[0])) report(part[0], start + part.index!);
+        });
+    }
+
+    if (grammar) {
+        checkGrammar(text, grammar, word => typo!.check(word)).forEach(lint => {
+            const hash = contextHash(text, lint.span.start, lint.span.end, lint.rule);
+            if (!ignoredLints.has(hash)) results.push({ ...lint, hash });
+        });
+    }
+
+    return results;
+}
+
+self.onmessage = async (e: MessageEvent) => {
+    const { paragraphs, type, version, words, ignored, hash } = e.data;
+
+    if (type === 'set-dictionary') {
+        if (typeof e.data.language !== 'string') {
+            console.error('Invalid dictionary language:', e.data.language);
+            return;
+        }
+        language = e.data.language;
+        // Load right away if the worker is already running with another language
+        if (activeLanguage) await init();
+        return;
+    }
+
+    if (type === 'dispose') {
+        typo = null;
+        compounds = null;
+        grammar = null;
+        phonetic = false;
+        activeLanguage = null;
+        dictionaries.clear();
+        return;
+    }
+
+    if (type === 'init') {
+        await init();
+        return;
+    }
+
+    if (type === 'set-ignored') {
+        try {
+            const parsed = typeof ignored === 'string' && ignored ? JSON.parse(ignored) : [];
+            ignoredLints = new Set(Array.isArray(parsed) ? parsed.map(String) : []);
+        } catch (error) {
+            console.error('Failed to read ignored lints:', error);
+            ignoredLints = new Set();
+        }
+        return;
+    }
+
+    if (type === 'ignore') {
+        ignoredLints.add(String(hash));
+        self.postMessage({ type: 'ignored', ignored: JSON.stringify(Array.from(ignoredLints)) });
+        return;
+    }
+
+    if (type === 'set-words') {
+        personalWords = new Set(Array.isArray(words) ? words : []);
+        return;
+    }
+
+    if (type === 'lint') {
+        await init();
+        if (typo && activeLanguage === language) {
+            try {
+                // One result list per paragraph, so the editor can cache them per paragraph
+                const results = (Array.isArray(paragraphs) ? paragraphs : []).map(p => lintText(String(p)));
+                self.postMessage({ type: 'results', paragraphs, results, version });
+            } catch (error) {
+                console.error('Hunspell lint error:', error);
+                self.postMessage({ type: 'error', error: String(error), version });
+            }
+        } else {
+            console.warn("Hunspell dictionary not initialized yet.");
+        }
+    }
+};
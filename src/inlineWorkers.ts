@@ -0,0 +1,12 @@
+/// <reference types="vite/client" />
+/**
+ * The spellcheck workers embedded in the page and started from blob URLs, for the
+ * single-file build. Same exports as workers.ts.
+ */
+
+import HarperWorker from './harper.worker?worker&inline';
+import HunspellWorker from './hunspell.worker?worker&inline';
+
+export const createHarperWorker = (): Worker => new HarperWorker();
+
+export const createHunspellWorker = (): Worker => new HunspellWorker();
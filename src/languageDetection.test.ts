@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { classifyParagraphs, detectLanguage } from './languageDetection';
+
+const segments = (...texts: string[]) => {
+  let offset = 0;
+  return texts.map(text => {
+    const segment = { text, offset };
+    offset += text.length + 1;
+    return segment;
+  });
+};
+
+const NORWEGIAN = 'Jeg synes det er viktig å lese bøker, fordi man lærer mye om andre mennesker.';
+const NYNORSK = 'Eg trur det er viktig å lesa bøker, fordi ein lærer mykje om andre menneske.';
+const ENGLISH = 'I think it is important to read books, because you learn a lot about other people.';
+
+describe('detectLanguage', () => {
+  it('recognises Norwegian, both Bokmål and Nynorsk', () => {
+    expect(detectLanguage(NORWEGIAN)).toBe('no');
+    expect(detectLanguage(NYNORSK)).toBe('no');
+  });
+
+  it('recognises English', () => {
+    expect(detectLanguage(ENGLISH)).toBe('en');
+  });
+
+  it('counts æ, ø and å as Norwegian', () => {
+    expect(detectLanguage('Skjærgården blåser')).toBe('no');
+  });
+
+  it('is unsure without clues or with as many of each', () => {
+    expect(detectLanguage('')).toBeNull();
+    expect(detectLanguage('Harry Potter')).toBeNull();
+    expect(detectLanguage('og the')).toBeNull();
+  });
+});
+
+describe('classifyParagraphs', () => {
+  it('gives each paragraph its own language', () => {
+    expect(classifyParagraphs(segments(NORWEGIAN, ENGLISH, NYNORSK))).toEqual(['no', 'en', 'no']);
+  });
+
+  it('lets a short heading take the language of the paragraph before it', () => {
+    expect(classifyParagraphs(segments(ENGLISH, 'Chapter 2', NORWEGIAN, 'Kapittel 3', ENGLISH)))
+      .toEqual(['en', 'en', 'no', 'no', 'en']);
+  });
+
+  it('lets paragraphs at the start follow the first one with clues', () => {
+    expect(classifyParagraphs(segments('Hamlet', '', ENGLISH))).toEqual(['en', 'en', 'en']);
+  });
+
+  it('uses the fallback when no paragraph has clues', () => {
+    expect(classifyParagraphs(segments('Hamlet', 'Shakespeare'))).toEqual(['no', 'no']);
+    expect(classifyParagraphs(segments('Hamlet'), 'en')).toEqual(['en']);
+    expect(classifyParagraphs([])).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Paragraph language detection for the mixed-language 'auto' spellcheck mode.
+ * Counts common function words of each language (and æ/ø/å for Norwegian).
+ * It only needs to tell Norwegian from English, so this is enough and runs on
+ * every lint without loading anything.
+ */
+
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { getTextMap, type TextSegment } from './textMap';
+
+export type ParagraphLanguage = 'en' | 'no';
+
+// Bokmål and Nynorsk. Words that are also English ("i", "at", "for", "men", "me", "her", ...) are left out of both lists
+const NORWEGIAN_WORDS = new Set([
+  'og', 'ikke', 'ikkje', 'er', 'det', 'den', 'de', 'dei', 'en', 'ein', 'et', 'eit', 'ei', 'på', 'som',
+  'jeg', 'eg', 'meg', 'deg', 'seg', 'med', 'til', 'av', 'har', 'hadde', 'var', 'vart', 'ble', 'blir',
+  'å', 'om', 'fra', 'frå', 'hva', 'kva', 'hvor', 'kvar', 'hvordan', 'korleis', 'når', 'også', 'òg',
+  'bare', 'berre', 'kan', 'skal', 'vil', 'må', 'være', 'vere', 'vært', 'vore', 'noe', 'noko', 'mye', 'mykje',
+  'han', 'hun', 'ho', 'vi', 'dere', 'dykk', 'sin', 'sitt', 'sine', 'min', 'mitt', 'mine', 'ved',
+  'etter', 'mellom', 'uten', 'utan', 'eller', 'hvis', 'viss', 'fordi', 'derfor', 'difor', 'dette', 'disse',
+  'desse', 'slik', 'sånn', 'veldig', 'mange', 'andre', 'blitt', 'vorte', 'mot', 'nå',
+]);
+
+const ENGLISH_WORDS = new Set([
+  'the', 'and', 'is', 'are', 'was', 'were', 'be', 'been', 'of', 'to', 'that', 'this', 'these', 'those',
+  'it', 'its', 'with', 'not', 'you', 'he', 'she', 'we', 'they', 'them', 'his', 'their', 'our',
+  'have', 'has', 'had', 'will', 'would', 'should', 'could', 'can', 'do', 'does', 'did', 'what', 'which',
+  'who', 'when', 'where', 'why', 'how', 'from', 'but', 'or', 'if', 'because', 'there', 'about', 'also',
+  'just', 'very', 'many', 'some', 'other', 'than', 'then', 'into', 'only', 'my', 'your', 'an',
+  'on', 'by', 'as', 'all', 'more', 'most', 'after', 'between', 'without', 'so', 'now', 'think',
+]);
+
+/**
+ * Best guess for one paragraph, or null when it has too few clues either way.
+ */
+export function detectLanguage(text: string): ParagraphLanguage | null {
+  const words = text.toLowerCase().match(/[\p{L}\p{M}']+/gu) || [];
+  let norwegian = 0;
+  let english = 0;
+
+  words.forEach(word => {
+    if (NORWEGIAN_WORDS.has(word) || /[æøå]/.test(word)) norwegian++;
+    if (ENGLISH_WORDS.has(word)) english++;
+  });
+
+  if (norwegian === english) return null;
+  return norwegian > english ? 'no' : 'en';
+}
+
+/**
+ * Detects every paragraph's language. Paragraphs without enough clues (headings,
+ * short lines) follow the paragraph before them, or the one after at the start of
+ * the document; with no clues anywhere, `fallback` is used.
+ */
+export function classifyParagraphs(segments: TextSegment[], fallback: ParagraphLanguage = 'no'): ParagraphLanguage[] {
+  const detected = segments.map(segment => detectLanguage(segment.text));
+  const first = detected.find(language => language !== null) ?? fallback;
+
+  let previous = first;
+  return detected.map(language => {
+    if (language) previous = language;
+    return previous;
+  });
+}
+
+/**
+ * The paragraphs of `doc` written in `language`, for a spellchecker's `segments` option.
+ */
+export function segmentsInLanguage(doc: ProseMirrorNode, language: ParagraphLanguage): TextSegment[] {
+  const segments = getTextMap(doc).blocks;
+  const languages = classifyParagraphs(segments);
+  return segments.filter((_, i) => languages[i] === language);
+}
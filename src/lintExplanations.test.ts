@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { RULE_EXPLANATIONS, untranslatedRules } from './lintExplanations';
+import harperRules from './__fixtures__/harper-rules.json';
+
+describe('Harper rule explanations', () => {
+  it('cover every Harper rule except those left to their category', () => {
+    // A rule in this list is one Harper has added since the catalogue was last updated
+    expect(untranslatedRules(harperRules.rules)).toEqual(harperRules.categoryFallback);
+  });
+
+  it('are keyed by rule names Harper has', () => {
+    const ownRules = (rule: string) => rule === 'Hunspell' || rule.startsWith('Norwegian');
+    const unknown = Object.keys(RULE_EXPLANATIONS).filter(rule => !ownRules(rule) && !harperRules.rules.includes(rule));
+    expect(unknown).toEqual([]);
+  });
+});
+
+// Skipped when the harper.js build is not in src/vendor/harper
+const [loadHarper] = Object.values(import.meta.glob<typeof import('harper.js')>('./vendor/harper/harper.js'));
+const harper = loadHarper ? await loadHarper() : null;
+
+describe.skipIf(!harper)('Harper rule fixture', () => {
+  it('matches the vendored build', async () => {
+    const linter = new harper!.LocalLinter({ binary: harper!.binaryInlined });
+    await linter.setup();
+    const rules = Object.keys(await linter.getLintDescriptions()).sort();
+    // Update src/__fixtures__/harper-rules.json when the vendored build changes
+    expect(rules).toEqual(harperRules.rules);
+  });
+});
@@ -0,0 +1,304 @@
+/**
+ * Norwegian explanations for the spellcheckers' results, keyed by the rule that
+ * found them. Harper's own messages are English and change between versions, so
+ * the sidebar never shows them; rules missing here fall back to their category.
+ * untranslatedRules() lists the Harper rules this catalogue does not cover yet;
+ * src/lintExplanations.test.ts checks them against src/__fixtures__/harper-rules.json
+ * and fails when Harper has a rule that is neither explained nor listed there.
+ */
+
+import type { LintResult } from './LintExtension';
+
+export interface LintExplanation {
+  // One line under the result in the sidebar
+  short: string;
+  // Shown when the result is selected
+  long: string;
+  example?: {
+    wrong: string;
+    right: string;
+  };
+}
+
+export const RULE_EXPLANATIONS: Record<string, LintExplanation> = {
+  // Norwegian and other Hunspell languages
+  Hunspell: {
+    short: 'Er det skrevet riktig?',
+    long: 'Ordet står ikke i ordlista. Sjekk stavemåten, eller legg ordet til i ordlisten hvis det er riktig (for eksempel et navn).',
+    example: { wrong: 'Jeg gikk til skollen.', right: 'Jeg gikk til skolen.' },
+  },
+  NorwegianSplitCompound: {
+    short: 'Skal dette skrives i ett ord?',
+    long: 'Sammensatte ord skrives i ett ord på norsk. Skrives de i to ord (særskriving), kan meningen endre seg: en "røyke fri" sone er noe annet enn en "røykfri" sone.',
+    example: { wrong: 'Han er fotball trener.', right: 'Han er fotballtrener.' },
+  },
+  NorwegianOgAa: {
+    short: 'Sjekk om det skal være "og" eller "å".',
+    long: '"Å" står foran verb i infinitiv (å lese, å spise). "Og" binder sammen ord og setninger. Prøv å bytte ut ordet med "to" på engelsk: passer det, skal det være "å".',
+    example: { wrong: 'Jeg liker og lese.', right: 'Jeg liker å lese.' },
+  },
+  NorwegianDeDem: {
+    short: 'Sjekk om det skal være "de" eller "dem".',
+    long: '"De" er subjekt: det er de som gjør noe. "Dem" er objekt: noe skjer med dem. Prøv å bytte ut ordet med "vi" og "oss": passer "vi", skal det være "de".',
+    example: { wrong: 'Dem kom sent, så jeg ventet på de.', right: 'De kom sent, så jeg ventet på dem.' },
+  },
+  NorwegianRepeatedWords: {
+    short: 'Du har skrevet dette ordet to ganger på rad.',
+    long: 'Det samme ordet står to ganger etter hverandre. Fjern det ene.',
+    example: { wrong: 'Vi gikk til til skolen.', right: 'Vi gikk til skolen.' },
+  },
+  NorwegianSentenceCapitalization: {
+    short: 'Setningen skal begynne med stor bokstav.',
+    long: 'Etter punktum, spørsmålstegn og utropstegn begynner en ny setning, og den skal ha stor forbokstav.',
+    example: { wrong: 'Det regnet. vi ble inne.', right: 'Det regnet. Vi ble inne.' },
+  },
+  NorwegianSpaces: {
+    short: 'Du har brukt mer enn ett mellomrom her.',
+    long: 'Mellom to ord skal det bare være ett mellomrom.',
+    example: { wrong: 'Vi  dro hjem.', right: 'Vi dro hjem.' },
+  },
+  NorwegianCommaBeforeMen: {
+    short: 'Det skal være komma foran "men".',
+    long: 'Når "men" binder sammen to setninger eller setningsdeler, skal det alltid stå komma foran.',
+    example: { wrong: 'Jeg ville gå men jeg kunne ikke.', right: 'Jeg ville gå, men jeg kunne ikke.' },
+  },
+
+  // Harper (English)
+  SpellCheck: {
+    short: 'Er det skrevet riktig?',
+    long: 'Ordet finnes ikke i den engelske ordlista. Sjekk stavemåten. Både britisk og amerikansk stavemåte godtas.',
+    example: { wrong: 'I recieved a letter.', right: 'I received a letter.' },
+  },
+  SentenceCapitalization: {
+    short: 'Setningen skal begynne med stor bokstav.',
+    long: 'På engelsk, som på norsk, begynner en ny setning alltid med stor bokstav.',
+    example: { wrong: 'It was late. we went home.', right: 'It was late. We went home.' },
+  },
+  CapitalizePersonalPronouns: {
+    short: '"I" skrives alltid med stor bokstav.',
+    long: 'Det engelske ordet for "jeg" er alltid stor I, også midt i en setning.',
+    example: { wrong: 'Yesterday i went to London.', right: 'Yesterday I went to London.' },
+  },
+  RepeatedWords: {
+    short: 'Du har skrevet dette ordet to ganger på rad.',
+    long: 'Det samme ordet står to ganger etter hverandre. Fjern det ene.',
+    example: { wrong: 'She went to the the shop.', right: 'She went to the shop.' },
+  },
+  AnA: {
+    short: 'Sjekk om det skal være "a" eller "an".',
+    long: 'Bruk "an" foran ord som begynner med en vokallyd, og "a" foran ord som begynner med en konsonantlyd. Det er lyden som teller, ikke bokstaven.',
+    example: { wrong: 'She ate a apple in a hour.', right: 'She ate an apple in an hour.' },
+  },
+  LongSentences: {
+    short: 'Denne setningen er lang. Kan den deles opp?',
+    long: 'Lange setninger er vanskelige å lese. Prøv å dele setningen i to, eller fjern ord som ikke trengs.',
+  },
+  Spaces: {
+    short: 'Du har brukt mer enn ett mellomrom her.',
+    long: 'Mellom to ord skal det bare være ett mellomrom.',
+    example: { wrong: 'The dog  barked.', right: 'The dog barked.' },
+  },
+  UnclosedQuotes: {
+    short: 'Et anførselstegn mangler.',
+    long: 'Sitater og replikker skal både åpnes og lukkes med anførselstegn.',
+    example: { wrong: 'He said, "Hello.', right: 'He said, "Hello."' },
+  },
+  EllipsisLength: {
+    short: 'Tre prikker er nok.',
+    long: 'Et utelatelsestegn (…) har alltid tre prikker, verken flere eller færre.',
+    example: { wrong: 'I was waiting.....', right: 'I was waiting...' },
+  },
+  Dashes: {
+    short: 'Sjekk tankestreken.',
+    long: 'To eller tre bindestreker etter hverandre skal være en tankestrek (– eller —).',
+    example: { wrong: 'It was cold -- very cold.', right: 'It was cold – very cold.' },
+  },
+  CorrectNumberSuffix: {
+    short: 'Sjekk endelsen på tallet.',
+    long: 'Ordenstall på engelsk får endelsen -st, -nd, -rd eller -th, og den må passe til tallet.',
+    example: { wrong: 'the 2th of May', right: 'the 2nd of May' },
+  },
+  NumberSuffixCapitalization: {
+    short: 'Endelsen på tallet skal ha små bokstaver.',
+    long: 'Endelser på ordenstall skrives med små bokstaver.',
+    example: { wrong: 'the 3RD time', right: 'the 3rd time' },
+  },
+  ThatWhich: {
+    short: 'Sjekk om det skal være "that" eller "which".',
+    long: 'Bruk "that" når leddsetningen er nødvendig for å forstå hva du mener, og "which" (med komma foran) når den bare gir ekstra informasjon.',
+    example: { wrong: 'The book which I read was good.', right: 'The book that I read was good.' },
+  },
+  UseGenitive: {
+    short: 'Sjekk om det skal være "their", "there" eller "they\'re".',
+    long: '"Their" betyr "deres", "there" betyr "der", og "they\'re" er kort for "they are".',
+    example: { wrong: 'There house is big.', right: 'Their house is big.' },
+  },
+  PossessiveYour: {
+    short: 'Sjekk om det skal være "your" eller "you\'re".',
+    long: '"Your" betyr "din/ditt/dine", og "you\'re" er kort for "you are".',
+    example: { wrong: 'Your welcome.', right: 'You\'re welcome.' },
+  },
+  ItsContraction: {
+    short: 'Sjekk om det skal være "its" eller "it\'s".',
+    long: '"Its" betyr "dens/dets", og "it\'s" er kort for "it is" eller "it has".',
+    example: { wrong: 'Its raining.', right: 'It\'s raining.' },
+  },
+  PronounContraction: {
+    short: 'Sjekk forkortelsen med apostrof.',
+    long: 'Forkortelser som "you\'re", "they\'re" og "it\'s" blandes lett med ord som uttales likt. Sjekk hvilket ord du mener.',
+  },
+  LetsConfusion: {
+    short: 'Sjekk om det skal være "let\'s" eller "lets".',
+    long: '"Let\'s" er kort for "let us" (la oss). "Lets" er verbet "let" i tredje person (han lar).',
+    example: { wrong: 'Lets go home.', right: 'Let\'s go home.' },
+  },
+  MultipleSequentialPronouns: {
+    short: 'Her står flere pronomen etter hverandre.',
+    long: 'To pronomen etter hverandre (som "I me" eller "he she") er som regel en skrivefeil. Fjern det ene.',
+    example: { wrong: 'Then he she left.', right: 'Then she left.' },
+  },
+  MergeWords: {
+    short: 'Bør dette skrives som ett ord?',
+    long: 'Noen ord skrives sammen på engelsk selv om de ser ut som to ord.',
+    example: { wrong: 'I will do it any way.', right: 'I will do it anyway.' },
+  },
+  SplitWords: {
+    short: 'Bør dette skrives som to ord?',
+    long: 'Noen uttrykk skrives som to ord på engelsk, selv om det tilsvarende norske ordet skrives sammen.',
+    example: { wrong: 'I will see you alot.', right: 'I will see you a lot.' },
+  },
+  CompoundNouns: {
+    short: 'Sjekk om ordene skal skrives sammen.',
+    long: 'Noen sammensatte ord skrives i ett ord på engelsk, andre med mellomrom. Sjekk hvordan akkurat dette ordet skrives.',
+  },
+  PhrasalVerbAsCompoundNoun: {
+    short: 'Sjekk om dette skal være to ord.',
+    long: 'Når ordet brukes som verb, skrives det ofte som to ord ("log in"). Som substantiv skrives det ofte i ett ord ("a login").',
+    example: { wrong: 'Please login to the site.', right: 'Please log in to the site.' },
+  },
+  InflectedVerbAfterTo: {
+    short: 'Etter "to" skal verbet stå i grunnform.',
+    long: 'Etter "to" (infinitivsmerket, som "å" på norsk) kommer verbet uten endelse.',
+    example: { wrong: 'I want to went home.', right: 'I want to go home.' },
+  },
+  OxfordComma: {
+    short: 'Vurder komma før "and" i oppramsingen.',
+    long: 'I engelske oppramsinger settes det ofte komma før det siste "and" eller "or" (Oxford-komma). Det gjør lange oppramsinger lettere å lese.',
+    example: { wrong: 'red, white and blue', right: 'red, white, and blue' },
+  },
+  NoOxfordComma: {
+    short: 'Vurder å fjerne kommaet før "and".',
+    long: 'I britisk engelsk settes det vanligvis ikke komma før det siste "and" i en oppramsing.',
+    example: { wrong: 'red, white, and blue', right: 'red, white and blue' },
+  },
+  CurrencyPlacement: {
+    short: 'Sjekk plasseringen av valutategnet.',
+    long: 'På engelsk står valutategnet foran beløpet.',
+    example: { wrong: 'It costs 20$.', right: 'It costs $20.' },
+  },
+  ExpandTimeShorthands: {
+    short: 'Skriv ut forkortelsen.',
+    long: 'Forkortelser som "hrs" og "mins" hører hjemme i notater. I en tekst bør de skrives ut.',
+    example: { wrong: 'We waited 2 hrs.', right: 'We waited 2 hours.' },
+  },
+  DotInitialisms: {
+    short: 'Sjekk punktumene i forkortelsen.',
+    long: 'Noen forkortelser skrives med punktum mellom bokstavene.',
+    example: { wrong: 'eg', right: 'e.g.' },
+  },
+  AvoidCurses: {
+    short: 'Dette ordet passer ikke i en skoletekst.',
+    long: 'Banneord og grove ord bør byttes ut med et mer nøytralt ord.',
+  },
+  BoringWords: {
+    short: 'Finn et mer presist ord.',
+    long: 'Ord som "very", "interesting" og "nice" sier lite. Prøv et ord som beskriver mer nøyaktig hva du mener.',
+    example: { wrong: 'The film was very good.', right: 'The film was gripping.' },
+  },
+  Hedging: {
+    short: 'Vær mer direkte.',
+    long: 'Ord som "I think" og "kind of" kan gjøre teksten usikker. Skriv det rett ut hvis du mener det.',
+  },
+  AdjectiveOfA: {
+    short: 'Sjekk ordstillingen.',
+    long: '"Of" hører ikke hjemme mellom et adjektiv og "a".',
+    example: { wrong: 'It was too big of a risk.', right: 'It was too big a risk.' },
+  },
+  ModalOf: {
+    short: 'Det skal være "have", ikke "of".',
+    long: '"Could have" uttales nesten som "could of", men det er bare "have" som er riktig.',
+    example: { wrong: 'I should of known.', right: 'I should have known.' },
+  },
+  SomewhatSomething: {
+    short: 'Sjekk uttrykket.',
+    long: 'Det faste uttrykket er "something of a", ikke "somewhat of a".',
+    example: { wrong: 'He is somewhat of an expert.', right: 'He is something of an expert.' },
+  },
+  Americas: {
+    short: 'Sjekk stor bokstav i stedsnavnet.',
+    long: 'Navn på land, byer og steder skrives med stor bokstav.',
+    example: { wrong: 'south america', right: 'South America' },
+  },
+  Holidays: {
+    short: 'Høytider skrives med stor bokstav.',
+    long: 'På engelsk skrives navn på høytider og merkedager med stor bokstav.',
+    example: { wrong: 'We celebrate christmas.', right: 'We celebrate Christmas.' },
+  },
+};
+
+// Used for rules without an entry of their own
+const CATEGORY_EXPLANATIONS: Record<string, LintExplanation> = {
+  Spelling: {
+    short: 'Er det skrevet riktig?',
+    long: 'Ordet står ikke i ordlista. Sjekk stavemåten.',
+  },
+  Typo: {
+    short: 'Mulig skrivefeil.',
+    long: 'Det ser ut som en tastefeil. Les ordet en gang til.',
+  },
+  Capitalization: {
+    short: 'Sjekk stor/liten bokstav.',
+    long: 'Navn og begynnelsen av en setning skal ha stor bokstav. Andre ord skrives vanligvis med liten.',
+  },
+  Punctuation: {
+    short: 'Sjekk tegnsettingen her.',
+    long: 'Det kan mangle et tegn her, eller det står et tegn for mye. Les setningen høyt og se hvor pausene er.',
+  },
+  Grammar: {
+    short: 'Sjekk grammatikken her.',
+    long: 'Noe i setningen passer kanskje ikke sammen, for eksempel verbet og subjektet.',
+  },
+  WordChoice: {
+    short: 'Vurder et annet ordvalg.',
+    long: 'Et annet ord kan passe bedre her. Se forslagene.',
+  },
+  Style: {
+    short: 'Vurder å omformulere.',
+    long: 'Setningen er riktig, men den kan kanskje sies enklere eller tydeligere.',
+  },
+  Repetition: {
+    short: 'Her gjentar du deg selv.',
+    long: 'Det samme ordet eller uttrykket står flere ganger tett sammen. Prøv å variere.',
+  },
+};
+
+const FALLBACK_EXPLANATION: LintExplanation = {
+  short: 'Sjekk denne teksten.',
+  long: 'Stavekontrollen mener noe kan være galt her. Les teksten en gang til.',
+};
+
+export function explainLint(result: LintResult): LintExplanation {
+  const explanation = RULE_EXPLANATIONS[result.rule] || CATEGORY_EXPLANATIONS[result.category] || FALLBACK_EXPLANATION;
+  // For spelling the suggestions are the explanation
+  if (result.category === 'Spelling' && result.suggestions.length > 0) {
+    return { ...explanation, short: 'Mente du en av disse?' };
+  }
+  return explanation;
+}
+
+/**
+ * Rule names (as the Harper worker reports them) without an explanation of their own.
+ */
+export function untranslatedRules(rules: string[]): string[] {
+  return rules.filter(rule => !RULE_EXPLANATIONS[rule]);
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ParagraphLinter, type SpanResult } from './lintSegments';
+import type { TextSegment } from './textMap';
+
+const result = (start: number, end: number, hash: string): SpanResult => ({ span: { start, end }, hash });
+
+function setup(segments: TextSegment[]) {
+  const sent: { paragraphs: string[]; version: number }[] = [];
+  const reported: SpanResult[][] = [];
+  const linter = new ParagraphLinter<SpanResult>({
+    segments: () => segments,
+    send: (paragraphs, version) => sent.push({ paragraphs, version }),
+    report: results => reported.push(results),
+  });
+  return { linter, sent, reported };
+}
+
+describe('ParagraphLinter', () => {
+  it('reports results with document offsets once every paragraph has them', () => {
+    const { linter, sent, reported } = setup([{ text: 'Ein', offset: 0 }, { text: 'To', offset: 10 }]);
+    linter.lint();
+    expect(sent).toEqual([{ paragraphs: ['Ein', 'To'], version: 0 }]);
+
+    linter.receive(['Ein', 'To'], [[result(0, 3, 'a')], [result(0, 2, 'b')]], 0);
+    expect(reported).toEqual([[result(0, 3, 'a'), result(10, 12, 'b')]]);
+  });
+
+  it('only sends paragraphs without cached results', async () => {
+    const segments = [{ text: 'Ein', offset: 0 }];
+    const { linter, sent, reported } = setup(segments);
+    linter.lint();
+    linter.receive(['Ein'], [[]], 0);
+
+    segments.push({ text: 'To', offset: 4 });
+    linter.lint();
+    expect(sent[1].paragraphs).toEqual(['To']);
+
+    // Nothing left to lint: reported without asking the worker
+    segments.pop();
+    linter.lint();
+    await Promise.resolve();
+    expect(sent).toHaveLength(2);
+    expect(reported).toHaveLength(2);
+  });
+
+  it('lints after the document stops changing and does not report older results', () => {
+    vi.useFakeTimers();
+    try {
+      const { linter, sent, reported } = setup([{ text: 'Ein', offset: 0 }]);
+      linter.documentChanged();
+      linter.documentChanged();
+      vi.advanceTimersByTime(500);
+      expect(sent).toEqual([{ paragraphs: ['Ein'], version: 2 }]);
+
+      linter.receive(['Ein'], [[]], 1);
+      expect(reported).toHaveLength(0);
+      linter.receive(['Ein'], [[]], 2);
+      expect(reported).toHaveLength(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('drops results linted before a reset', () => {
+    const { linter, sent, reported } = setup([{ text: 'Ein', offset: 0 }]);
+    linter.lint();
+    linter.reset();
+    linter.receive(['Ein'], [[result(0, 3, 'a')]], 0);
+    expect(reported).toHaveLength(0);
+
+    linter.lint();
+    expect(sent[1]).toEqual({ paragraphs: ['Ein'], version: 1 });
+  });
+
+  it('removes ignored lints from cached results', async () => {
+    const { linter, reported } = setup([{ text: 'Ein', offset: 0 }]);
+    linter.lint();
+    linter.receive(['Ein'], [[result(0, 3, 'a')]], 0);
+    linter.ignore('a');
+    linter.lint();
+    await Promise.resolve();
+    expect(reported.at(-1)).toEqual([]);
+  });
+});
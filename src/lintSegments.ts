@@ -0,0 +1,152 @@
+/**
+ * Paragraph-by-paragraph linting.
+ * The spellcheckers lint each paragraph on its own and keep the results per paragraph
+ * text, so after an edit only the paragraphs that changed go to the worker. Results
+ * are put back together with spans in text map offsets (see textMap.ts), which is
+ * what the sidebar and the decorations work with.
+ */
+
+import type { TextSegment } from './textMap';
+
+export interface SpanResult {
+  span: {
+    start: number;
+    end: number;
+  };
+  hash: string;
+}
+
+/**
+ * Lint results keyed by paragraph text, with spans relative to the paragraph.
+ * Anything that changes results for unchanged text (the personal dictionary) must clear it.
+ */
+export class ParagraphLintCache<T extends SpanResult> {
+  private results = new Map<string, T[]>();
+
+  /**
+   * Paragraph texts that still need linting, each listed once.
+   */
+  missing(segments: TextSegment[]): string[] {
+    const missing = new Set<string>();
+    segments.forEach(({ text }) => {
+      if (this.results.has(text)) return;
+      // Nothing to check in blank paragraphs
+      if (!text.trim()) this.results.set(text, []);
+      else missing.add(text);
+    });
+    return Array.from(missing);
+  }
+
+  store(paragraphs: string[], results: T[][]) {
+    paragraphs.forEach((text, i) => this.results.set(text, results[i] || []));
+  }
+
+  /**
+   * Results for the given segments with document offsets, or null while some are
+   * still being linted. Paragraphs no longer in the document are forgotten.
+   */
+  assemble(segments: TextSegment[]): T[] | null {
+    if (segments.some(({ text }) => !this.results.has(text))) return null;
+
+    const kept = new Map<string, T[]>();
+    const assembled = segments.flatMap(({ text, offset }) => {
+      const results = this.results.get(text) || [];
+      kept.set(text, results);
+      return results.map(result => ({
+        ...result,
+        span: { start: result.span.start + offset, end: result.span.end + offset },
+      }));
+    });
+    this.results = kept;
+    return assembled;
+  }
+
+  // Drops an ignored lint without linting its paragraph again
+  ignore(hash: string) {
+    this.results.forEach((results, text) => {
+      this.results.set(text, results.filter(result => result.hash !== hash));
+    });
+  }
+
+  clear() {
+    this.results.clear();
+  }
+}
+
+export interface ParagraphLinterOptions<T> {
+  // The paragraphs to lint in the current document
+  segments: () => TextSegment[];
+  // Posts paragraphs to the worker, which answers with receive(paragraphs, results, version)
+  send: (paragraphs: string[], version: number) => void;
+  // All results for the current document, with document offsets
+  report: (results: T[]) => void;
+}
+
+/**
+ * The request cycle the spellcheck extensions share: edits are linted after a pause,
+ * only paragraphs without cached results go to the worker, and results are reported
+ * once every paragraph of the current document has them.
+ */
+export class ParagraphLinter<T extends SpanResult> {
+  private cache = new ParagraphLintCache<T>();
+  private options: ParagraphLinterOptions<T>;
+  // Results for older versions are cached but not reported
+  private version = 0;
+  // Results from lints sent before this version were made before the cache was reset
+  private cacheVersion = 0;
+  private debounceTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: ParagraphLinterOptions<T>) {
+    this.options = options;
+  }
+
+  private report() {
+    const results = this.cache.assemble(this.options.segments());
+    if (results) this.options.report(results);
+  }
+
+  /**
+   * Sends the paragraphs without cached results, or reports right away if there are none.
+   */
+  lint() {
+    const paragraphs = this.cache.missing(this.options.segments());
+    if (paragraphs.length === 0) {
+      // Not from inside the view update that may have called this
+      queueMicrotask(() => this.report());
+      return;
+    }
+    this.options.send(paragraphs, this.version);
+  }
+
+  // Lints the document once it has stopped changing
+  documentChanged(delay = 500) {
+    this.version++;
+    if (this.debounceTimeout) clearTimeout(this.debounceTimeout);
+    this.debounceTimeout = setTimeout(() => this.lint(), delay);
+  }
+
+  receive(paragraphs: string[], results: T[][], version: number) {
+    if (version < this.cacheVersion) return;
+    // Keep results from older lints too; they are still right for their paragraphs
+    this.cache.store(paragraphs, results);
+    if (version === this.version) this.report();
+  }
+
+  // Forgets every result, e.g. when the personal dictionary changes
+  reset() {
+    this.cache.clear();
+    this.version++;
+    this.cacheVersion = this.version;
+  }
+
+  // Lints already on their way may still contain the ignored lint
+  ignore(hash: string) {
+    this.cache.ignore(hash);
+    this.version++;
+    this.cacheVersion = this.version;
+  }
+
+  dispose() {
+    if (this.debounceTimeout) clearTimeout(this.debounceTimeout);
+  }
+}
@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest';
+import { checkGrammar, type GrammarVariant } from './norwegianGrammar';
+
+// Just the compounds the særskriving tests need
+const DICTIONARY = new Set(['fotballtrener', 'skolesekk', 'røykfri', 'sommerferie', 'storby', 'idag']);
+const isWord = (word: string) => DICTIONARY.has(word);
+
+const lintsFor = (text: string, rule: string, variant: GrammarVariant = 'nb') =>
+  checkGrammar(text, variant, isWord)
+    .filter(lint => lint.rule === rule)
+    .map(lint => ({ text: text.slice(lint.span.start, lint.span.end), suggestions: lint.suggestions }));
+
+describe('og/å', () => {
+  it.each([
+    ['Jeg liker og lese.', 'og', 'å'],
+    ['Hun prøvde og forklare det.', 'og', 'å'],
+    ['Eg likar og lesa.', 'og', 'å'],
+    ['Vi spiste å gikk hjem.', 'å', 'og'],
+  ])('flags "%s"', (text, wrong, right) => {
+    expect(lintsFor(text, 'NorwegianOgAa')).toEqual([{ text: wrong, suggestions: [right] }]);
+  });
+
+  it.each([
+    // Nouns and prepositions that look like the verbs
+    'En lærer og en elev gikk hjem.',
+    'Vi har mange ønsker og drømmer.',
+    'Han er en begynner og trenger hjelp.',
+    'Det er argumenter for og imot.',
+    // Two finite verbs
+    'Hun elsker og hater ham.',
+    'Han liker og forstår det.',
+    'Vi hatet og fryktet ham.',
+    // Noun phrases after "og"
+    'Hun lærte og de andre så på.',
+    // Repeated verbs
+    'Han prøvde og prøvde.',
+    'Jeg liker å lese.',
+    'Å så fint!',
+  ])('does not flag "%s"', text => {
+    expect(lintsFor(text, 'NorwegianOgAa')).toEqual([]);
+  });
+});
+
+describe('særskriving', () => {
+  it.each([
+    ['Han er fotball trener.', 'fotball trener', 'fotballtrener'],
+    ['Hun har en ny skole sekk.', 'skole sekk', 'skolesekk'],
+    ['Dette er en røyk fri sone.', 'røyk fri', 'røykfri'],
+    ['Vi gleder oss til sommer ferie.', 'sommer ferie', 'sommerferie'],
+  ])('flags "%s"', (text, wrong, right) => {
+    expect(lintsFor(text, 'NorwegianSplitCompound')).toEqual([{ text: wrong, suggestions: [right] }]);
+  });
+
+  it.each([
+    // A function word as one of the parts
+    'Oslo er en stor by.',
+    'Jeg kommer i dag.',
+    // Names, and words the dictionary does not know as one
+    'Han er Fotball trener.',
+    'Jeg glemte skole sekken.',
+    // Not next to each other
+    'Han er fotball, trener.',
+    'Han er fotball  trener.',
+  ])('does not flag "%s"', text => {
+    expect(lintsFor(text, 'NorwegianSplitCompound')).toEqual([]);
+  });
+});
+
+describe('de/dem', () => {
+  it.each([
+    ['Dem kom sent.', 'Dem', 'De'],
+    ['Jeg tror dem er hjemme.', 'dem', 'de'],
+    ['Jeg ventet på de.', 'de', 'dem'],
+    ['Vi snakket med de, og så gikk vi.', 'de', 'dem'],
+  ])('flags "%s"', (text, wrong, right) => {
+    expect(lintsFor(text, 'NorwegianDeDem')).toEqual([{ text: wrong, suggestions: [right] }]);
+  });
+
+  it.each([
+    'De kom sent.',
+    'Jeg ventet på dem.',
+    // "De" starts a clause of its own
+    'Jeg ga boka til de som kom.',
+    'Vi så de andre elevene.',
+  ])('does not flag "%s"', text => {
+    expect(lintsFor(text, 'NorwegianDeDem')).toEqual([]);
+  });
+
+  it('is Bokmål only', () => {
+    expect(lintsFor('Dem kom sent.', 'NorwegianDeDem', 'nn')).toEqual([]);
+  });
+});
+
+describe('repeated words', () => {
+  it.each([
+    ['Vi gikk til til skolen.', 'til til', 'til'],
+    ['Til til slutt kom han.', 'Til til', 'Til'],
+    ['Hun var veldig\nveldig glad.', 'veldig\nveldig', 'veldig'],
+  ])('flags "%s"', (text, wrong, right) => {
+    expect(lintsFor(text, 'NorwegianRepeatedWords')).toEqual([{ text: wrong, suggestions: [right] }]);
+  });
+
+  it.each([
+    'Det det handler om, er vennskap.',
+    'Ja ja, vi får se.',
+    'Nei nei, det går fint.',
+    'Han kom. Kom du også?',
+  ])('does not flag "%s"', text => {
+    expect(lintsFor(text, 'NorwegianRepeatedWords')).toEqual([]);
+  });
+});
+
+describe('capital letter after a full stop', () => {
+  it.each([
+    ['Det regnet. vi ble inne.', 'vi', 'Vi'],
+    ['Hvorfor kom du? jeg ventet.', 'jeg', 'Jeg'],
+    ['Så fint! nå drar vi.', 'nå', 'Nå'],
+  ])('flags "%s"', (text, wrong, right) => {
+    expect(lintsFor(text, 'NorwegianSentenceCapitalization')).toEqual([{ text: wrong, suggestions: [right] }]);
+  });
+
+  it.each([
+    // Abbreviations, with and without a dot inside
+    'Vi tok med frukt, f.eks. epler.',
+    'Det var bl.a. tre elever der.',
+    'Vi møtes kl. ni.',
+    'Det kom ca. ti elever.',
+    'Vi tok med mat, drikke osv. til turen.',
+    // Ordinals and ellipses
+    'Den 17. mai går vi i tog.',
+    'Jeg ventet... og ventet.',
+    'Det regnet. Vi ble inne.',
+  ])('does not flag "%s"', text => {
+    expect(lintsFor(text, 'NorwegianSentenceCapitalization')).toEqual([]);
+  });
+});
+
+describe('double spaces', () => {
+  it.each([
+    ['Vi  dro hjem.', 'Vi  dro', 'Vi dro'],
+    ['Vi dro   hjem.', 'dro   hjem.', 'dro hjem.'],
+  ])('flags "%s"', (text, wrong, right) => {
+    expect(lintsFor(text, 'NorwegianSpaces')).toEqual([{ text: wrong, suggestions: [right] }]);
+  });
+
+  it.each([
+    'Vi dro hjem.',
+    // Indentation and spaces at the end of the paragraph
+    '  Vi dro hjem.',
+    'Vi dro hjem.  ',
+  ])('does not flag "%s"', text => {
+    expect(lintsFor(text, 'NorwegianSpaces')).toEqual([]);
+  });
+});
+
+describe('comma before "men"', () => {
+  it.each([
+    ['Jeg ville gå men jeg kunne ikke.', 'gå men', 'gå, men'],
+    ['Eg ville gå men eg kunne ikkje.', 'gå men', 'gå, men'],
+  ])('flags "%s"', (text, wrong, right) => {
+    expect(lintsFor(text, 'NorwegianCommaBeforeMen')).toEqual([{ text: wrong, suggestions: [right] }]);
+  });
+
+  it.each([
+    'Jeg ville gå, men jeg kunne ikke.',
+    // "Men" as the noun
+    'Han fikk varige men etter ulykken.',
+    'Hun slapp fra det uten men.',
+    'Men det var for sent.',
+  ])('does not flag "%s"', text => {
+    expect(lintsFor(text, 'NorwegianCommaBeforeMen')).toEqual([]);
+  });
+});
+
+describe('checkGrammar', () => {
+  it('returns the results of every rule in text order', () => {
+    const text = 'Dem kom sent. vi  dro hjem.';
+    expect(checkGrammar(text, 'nb', isWord).map(lint => lint.rule)).toEqual([
+      'NorwegianDeDem',
+      'NorwegianSentenceCapitalization',
+      'NorwegianSpaces',
+    ]);
+  });
+
+  it('skips empty paragraphs', () => {
+    expect(checkGrammar('   ', 'nb', isWord)).toEqual([]);
+  });
+});
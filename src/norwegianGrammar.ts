@@ -0,0 +1,308 @@
+/**
+ * Rule-based Norwegian grammar checks for the Hunspell worker: the classic school
+ * errors that a dictionary cannot see. Each rule looks at one paragraph and returns
+ * results in the same shape as the spelling results, minus the ignore hash.
+ * The rules look for a few well-known patterns rather than parsing the sentence,
+ * so they stay quiet whenever a pattern is ambiguous.
+ */
+
+// 'nb' for Bokmål, 'nn' for Nynorsk
+export type GrammarVariant = 'nb' | 'nn';
+
+export interface GrammarLint {
+  message: string;
+  span: { start: number; end: number };
+  suggestions: string[];
+  category: string;
+  rule: string;
+}
+
+interface Word {
+  text: string;
+  lower: string;
+  start: number;
+  end: number;
+}
+
+interface GrammarContext {
+  text: string;
+  words: Word[];
+  variant: GrammarVariant;
+  // Whether the dictionary knows a word (without compound analysis)
+  isWord: (word: string) => boolean;
+}
+
+type GrammarRule = (context: GrammarContext) => GrammarLint[];
+
+const WORD_REGEX = /[\p{L}\p{M}]+/gu;
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+// Keeps a capital letter when one word replaces another
+const matchCase = (replacement: string, original: string) =>
+  original.charAt(0) === original.charAt(0).toUpperCase() ? capitalize(replacement) : replacement;
+
+const between = (text: string, a: Word, b: Word) => text.slice(a.end, b.start);
+
+// Words that are rarely the first or last part of a compound, so two of them
+// next to each other are not særskriving ("en stor by", "i dag")
+const FUNCTION_WORDS = new Set([
+  'den', 'det', 'de', 'dei', 'dem', 'en', 'ein', 'ei', 'et', 'eit', 'og', 'eller', 'men', 'som', 'at', 'å',
+  'på', 'til', 'fra', 'frå', 'med', 'av', 'for', 'om', 'under', 'over', 'etter', 'før', 'ved', 'mot', 'uten',
+  'utan', 'hos', 'mellom', 'gjennom', 'inn', 'ut', 'opp', 'ned', 'bort', 'fram', 'frem', 'hjem', 'heim',
+  'her', 'der', 'da', 'då', 'nå', 'no', 'så', 'ikke', 'ikkje', 'også', 'bare', 'berre', 'veldig', 'mye',
+  'mykje', 'litt', 'alle', 'alt', 'mange', 'noen', 'nokre', 'noko', 'ingen', 'inga', 'ingenting', 'jeg',
+  'eg', 'du', 'han', 'hun', 'ho', 'vi', 'me', 'dere', 'dykk', 'meg', 'deg', 'seg', 'oss', 'min', 'mitt',
+  'mine', 'din', 'ditt', 'dine', 'sin', 'sitt', 'sine', 'hans', 'hennes', 'hennar', 'vår', 'vårt', 'våre',
+  'deres', 'er', 'var', 'har', 'hadde', 'blir', 'ble', 'vart', 'kan', 'skal', 'vil', 'må', 'bør', 'får',
+  'fikk', 'gjør', 'gjorde', 'to', 'tre', 'fire', 'fem', 'seks', 'sju', 'syv', 'åtte', 'ni', 'ti', 'hva',
+  'kva', 'hvem', 'kven', 'hvor', 'kvar', 'når', 'korleis', 'hvordan', 'hvis', 'viss', 'fordi', 'selv',
+  'sjølv', 'godt', 'bra', 'stor', 'store', 'liten', 'lita', 'små', 'lille', 'gammel', 'gamle', 'ny', 'nye',
+  'nytt', 'mer', 'meir', 'mest', 'mindre', 'andre', 'annen', 'anna', 'hele', 'heile', 'samme', 'same',
+  'egen', 'eigen', 'eget', 'eige', 'egne', 'eigne', 'dette', 'denne', 'disse', 'desse', 'slik', 'sånn',
+  'helt', 'heilt', 'først', 'fyrst', 'sist', 'god', 'gode', 'lang', 'lange', 'langt', 'høy', 'høye',
+]);
+
+// Særskriving: two words the dictionary knows as one ("fotball trener" -> "fotballtrener")
+const splitCompound: GrammarRule = ({ text, words, isWord }) => {
+  const lints: GrammarLint[] = [];
+  for (let i = 0; i < words.length - 1; i++) {
+    const [a, b] = [words[i], words[i + 1]];
+    if (between(text, a, b) !== ' ' || a.text !== a.lower || b.text !== b.lower) continue;
+    if (a.text.length < 3 || b.text.length < 3 || FUNCTION_WORDS.has(a.lower) || FUNCTION_WORDS.has(b.lower)) continue;
+
+    const joined = a.lower + b.lower;
+    if (!isWord(joined)) continue;
+    lints.push({
+      message: `"${a.text} ${b.text}" skal trolig skrives i ett ord: "${joined}".`,
+      span: { start: a.start, end: b.end },
+      suggestions: [joined],
+      // Not 'Spelling', which offers to add the word to the personal dictionary
+      category: 'Grammar',
+      rule: 'NorwegianSplitCompound',
+    });
+  }
+  return lints;
+};
+
+// Verbs that are followed by an infinitive with "å" ("jeg liker å lese"). Forms that are
+// also nouns ("en lærer", "mange ønsker", "en begynner") or prepositions are left out
+const INFINITIVE_VERBS = new Set([
+  'liker', 'likte', 'likar', 'prøvde', 'prøvar', 'begynte', 'byrjar', 'byrja',
+  'pleier', 'pleide', 'pleiar', 'slutter', 'sluttet', 'sluttar', 'slutta', 'glemmer', 'glemte', 'gløymer',
+  'gløymde', 'elsket', 'elska', 'hater', 'hatet', 'hatar', 'hata', 'ønsket',
+  'ønskjer', 'ønskte', 'håper', 'håpet', 'håpar', 'håpa', 'lærte', 'klarer', 'klarte', 'klarar',
+  'trenger', 'trengte', 'treng', 'tør', 'turte', 'bestemte', 'forsøker', 'forsøkte',
+  'orket', 'orkar', 'orka', 'gidder', 'gadd',
+]);
+
+// Verbs in the past tense (and a few common present forms) cannot follow "å"
+const FINITE_AFTER_AA = new Set([
+  'var', 'ble', 'vart', 'hadde', 'gikk', 'kom', 'fikk', 'dro', 'sa', 'tok', 'så', 'er', 'har', 'spiste',
+  'løp', 'sprang', 'satt', 'sto', 'stod', 'lo', 'gråt',
+]);
+
+// Start a noun phrase ("en lærer og en elev"), so the "og" joins two nouns
+const DETERMINERS = new Set([
+  'en', 'ei', 'et', 'ein', 'eit', 'den', 'det', 'de', 'dei', 'denne', 'dette', 'disse', 'desse',
+]);
+
+// Infinitives end in a vowel; present tense ("hater") and past tense ("hatet") forms do not,
+// and then "og" joins two verbs ("hun elsker og hater ham")
+const isFiniteVerb = (word: string) =>
+  /(r|et)$/.test(word) || FINITE_AFTER_AA.has(word) || INFINITIVE_VERBS.has(word);
+
+// Og/å: "jeg liker og lese" -> "å", "vi spiste å gikk" -> "og"
+const ogAa: GrammarRule = ({ text, words }) => {
+  const lints: GrammarLint[] = [];
+  for (let i = 0; i < words.length - 1; i++) {
+    const [a, b] = [words[i], words[i + 1]];
+    const c = words[i + 2];
+    if (between(text, a, b) !== ' ') continue;
+
+    // Repeated verbs ("prøvde og prøvde") are fine
+    if (b.lower === 'og' && INFINITIVE_VERBS.has(a.lower) && c && between(text, b, c) === ' ' &&
+      c.lower !== a.lower && !DETERMINERS.has(c.lower) && !isFiniteVerb(c.lower)) {
+      lints.push({
+        message: `Foran et verb i infinitiv skal det være "å": "${a.text} å ${c.text}".`,
+        span: { start: b.start, end: b.end },
+        suggestions: [matchCase('å', b.text)],
+        category: 'Grammar',
+        rule: 'NorwegianOgAa',
+      });
+    }
+
+    // A capital "Å" starts a sentence, where it is usually the interjection ("Å så fint!")
+    if (a.text === 'å' && FINITE_AFTER_AA.has(b.lower)) {
+      lints.push({
+        message: `"Å" står bare foran verb i infinitiv. Foran "${b.text}" skal det trolig være "og".`,
+        span: { start: a.start, end: a.end },
+        suggestions: ['og'],
+        category: 'Grammar',
+        rule: 'NorwegianOgAa',
+      });
+    }
+  }
+  return lints;
+};
+
+// Verbs that show "dem" is used as the subject ("dem er" -> "de er")
+const SUBJECT_VERBS = new Set([
+  'er', 'var', 'har', 'hadde', 'kan', 'kunne', 'skal', 'skulle', 'vil', 'ville', 'må', 'måtte', 'blir',
+  'ble', 'gikk', 'kom', 'sa', 'fikk', 'liker', 'likte', 'tror', 'trodde', 'gjør', 'gjorde', 'får', 'vet',
+  'visste', 'bor', 'bodde',
+]);
+
+// Words that take "dem" as their object ("med dem", "jeg så dem")
+const OBJECT_TAKERS = new Set([
+  'til', 'med', 'for', 'om', 'av', 'fra', 'hos', 'mot', 'uten', 'etter', 'på', 'ved', 'mellom', 'blant',
+  'så', 'ser', 'møtte', 'traff', 'hjalp', 'hjelper', 'likte', 'liker', 'spurte', 'ga', 'gav', 'kjenner',
+  'savner', 'ringte', 'besøkte',
+]);
+
+// De/dem (Bokmål): "dem" is the object form, "de" the subject form
+const deDem: GrammarRule = ({ text, words, variant }) => {
+  // Nynorsk uses "dei" for both
+  if (variant !== 'nb') return [];
+  const lints: GrammarLint[] = [];
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i];
+    const next = words[i + 1];
+    const previous = words[i - 1];
+
+    if (word.lower === 'dem' && next && between(text, word, next) === ' ' && SUBJECT_VERBS.has(next.lower)) {
+      lints.push({
+        message: `"Dem" er objektsform. Når ordet er subjekt ("${word.text} ${next.text}"), skal det være "de".`,
+        span: { start: word.start, end: word.end },
+        suggestions: [matchCase('de', word.text)],
+        category: 'Grammar',
+        rule: 'NorwegianDeDem',
+      });
+    }
+
+    // Only at the end of a sentence or clause, since "til de som kom" is correct
+    if (word.lower === 'de' && previous && between(text, previous, word) === ' ' &&
+      OBJECT_TAKERS.has(previous.lower) && /^\s*([.,!?;:]|$)/.test(text.slice(word.end))) {
+      lints.push({
+        message: `Etter "${previous.text}" skal det være objektsformen "dem".`,
+        span: { start: word.start, end: word.end },
+        suggestions: ['dem'],
+        category: 'Grammar',
+        rule: 'NorwegianDeDem',
+      });
+    }
+  }
+  return lints;
+};
+
+// Doubled words that can be correct ("det det handler om", "ja ja")
+const ALLOWED_REPEATS = new Set(['det', 'ja', 'nei', 'ha', 'he', 'hi']);
+
+const repeatedWords: GrammarRule = ({ text, words }) => {
+  const lints: GrammarLint[] = [];
+  for (let i = 0; i < words.length - 1; i++) {
+    const [a, b] = [words[i], words[i + 1]];
+    if (a.lower !== b.lower || ALLOWED_REPEATS.has(a.lower) || !/^\s+$/.test(between(text, a, b))) continue;
+    lints.push({
+      message: `"${a.text}" står to ganger etter hverandre.`,
+      span: { start: a.start, end: b.end },
+      suggestions: [a.text],
+      category: 'Repetition',
+      rule: 'NorwegianRepeatedWords',
+    });
+  }
+  return lints;
+};
+
+// Abbreviations that end in a full stop without ending the sentence. Ones with a dot
+// inside ("f.eks.", "bl.a.") are recognised by that dot
+const ABBREVIATIONS = new Set([
+  'ca', 'kl', 'nr', 'osv', 'mv', 'evt', 'ev', 'pga', 'dvs', 'etc', 'jf', 'jfr', 'ang', 'vs', 'tlf', 'st',
+  'mill', 'mrd', 'kap', 'fig', 'iflg',
+]);
+
+// Capital letter after a full stop
+const sentenceCapitalization: GrammarRule = ({ text }) => {
+  const lints: GrammarLint[] = [];
+  for (const match of text.matchAll(/[.!?]\s+(\p{Ll}[\p{L}\p{M}]*)/gu)) {
+    const dot = match.index!;
+    const before = text.slice(0, dot).match(/\S*$/)![0];
+    if (text[dot] === '.') {
+      // Abbreviations ("f.eks."), ordinals ("17. mai"), initials and ellipses ("...")
+      if (!before || before.length === 1 || before.includes('.') || /\d$/.test(before) ||
+        ABBREVIATIONS.has(before.toLowerCase())) continue;
+    }
+
+    const word = match[1];
+    const start = dot + match[0].length - word.length;
+    lints.push({
+      message: 'En ny setning skal begynne med stor bokstav.',
+      span: { start, end: start + word.length },
+      suggestions: [capitalize(word)],
+      category: 'Capitalization',
+      rule: 'NorwegianSentenceCapitalization',
+    });
+  }
+  return lints;
+};
+
+// Double spaces, marked together with the words around them so the suggestion is readable
+const doubleSpaces: GrammarRule = ({ text }) => {
+  const lints: GrammarLint[] = [];
+  for (const match of text.matchAll(/(\S+)( {2,})(?=(\S+))/g)) {
+    const [, before, , after] = match;
+    const start = match.index!;
+    lints.push({
+      message: 'Her er det mer enn ett mellomrom.',
+      span: { start, end: start + match[0].length + after.length },
+      suggestions: [`${before} ${after}`],
+      category: 'Formatting',
+      rule: 'NorwegianSpaces',
+    });
+  }
+  return lints;
+};
+
+// "Men" as the noun ("varige men") takes no comma
+const NOUN_MEN_BEFORE = new Set(['varige', 'varig', 'store', 'fått', 'noen', 'ingen', 'uten', 'utan', 'og', 'eller']);
+
+// Comma before "men"
+const commaBeforeMen: GrammarRule = ({ text, words }) => {
+  const lints: GrammarLint[] = [];
+  for (let i = 0; i < words.length - 1; i++) {
+    const [a, b] = [words[i], words[i + 1]];
+    if (b.text !== 'men' || between(text, a, b) !== ' ' || NOUN_MEN_BEFORE.has(a.lower)) continue;
+    lints.push({
+      message: 'Det skal være komma foran "men".',
+      span: { start: a.start, end: b.end },
+      suggestions: [`${a.text}, men`],
+      category: 'Punctuation',
+      rule: 'NorwegianCommaBeforeMen',
+    });
+  }
+  return lints;
+};
+
+const RULES: GrammarRule[] = [
+  splitCompound,
+  ogAa,
+  deDem,
+  repeatedWords,
+  sentenceCapitalization,
+  doubleSpaces,
+  commaBeforeMen,
+];
+
+/**
+ * Runs every rule on one paragraph. Results are in paragraph offsets, in text order.
+ */
+export function checkGrammar(text: string, variant: GrammarVariant, isWord: (word: string) => boolean): GrammarLint[] {
+  if (!text.trim()) return [];
+  const words = Array.from(text.matchAll(WORD_REGEX), match => ({
+    text: match[0],
+    lower: match[0].toLowerCase(),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+  const context: GrammarContext = { text, words, variant, isWord };
+  return RULES.flatMap(rule => rule(context)).sort((a, b) => a.span.start - b.span.start);
+}
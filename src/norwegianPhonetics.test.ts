@@ -0,0 +1,38 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import Typo from 'typo-js';
+import { phoneticKey, rankSuggestions, soundAlikeVariants } from './norwegianPhonetics';
+import corpus from './__fixtures__/phonetic-misspellings.json';
+import nbAff from '../public/dictionaries/nb.aff?raw';
+import nbDic from '../public/dictionaries/nb.dic?raw';
+
+// How many suggestions the sidebar shows (see suggest() in hunspell.worker.ts)
+const SHOWN = 5;
+
+// The real Bokmål dictionary; expanding it takes a few seconds
+let typo: Typo;
+beforeAll(() => {
+  typo = new Typo('nb', nbAff, nbDic);
+}, 30_000);
+
+// What the worker does with the dictionary's edit-distance suggestions
+const suggest = (wrong: string, suggestions: string[]) => {
+  const soundAlikes = soundAlikeVariants(wrong).filter(variant => typo.check(variant));
+  return rankSuggestions(wrong, [...suggestions, ...soundAlikes]).slice(0, SHOWN);
+};
+
+describe('phonetic suggestions', () => {
+  it.each(corpus.cases)('suggest "$right" for "$wrong"', ({ wrong, right, suggestions }) => {
+    expect(typo.check(wrong)).toBe(false);
+    expect(suggest(wrong, suggestions)).toContain(right);
+  });
+
+  it('keeps a capital letter in the respellings', () => {
+    expect(soundAlikeVariants('Vis')).toContain('Hvis');
+  });
+
+  it('gives words that sound alike the same key', () => {
+    expect(phoneticKey('skjelden')).toBe(phoneticKey('sjelden'));
+    expect(phoneticKey('fotbal')).toBe(phoneticKey('fotball'));
+    expect(phoneticKey('kveld')).not.toBe(phoneticKey('kvele'));
+  });
+});
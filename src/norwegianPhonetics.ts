@@ -0,0 +1,110 @@
+/**
+ * Sound-based spelling suggestions for Norwegian.
+ * Typo.js ranks suggestions by edit distance, which suits typing slips but not words
+ * spelled the way they sound ("kjæm" for "kjem", "vis" for "hvis", "skjelden" for
+ * "sjelden"), the most common errors for students with dyslexia. A phonetic key
+ * makes words that sound alike compare equal, so they can be ranked first, and
+ * sound-alike respellings of the word are offered as extra candidates.
+ */
+
+// Spellings that sound the same; each is tried in place of the others
+const SOUND_ALTERNATIVES = [
+  ['skj', 'sj', 'sk', 'kj', 'tj', 'ch'],
+  ['kj', 'tj', 'k'],
+  ['hv', 'v', 'w'],
+  ['gj', 'hj', 'lj', 'dj', 'j', 'g'],
+  ['æ', 'e'],
+  ['å', 'o', 'aa'],
+  ['ø', 'ö'],
+  ['rd', 'r'],
+  ['ld', 'll', 'l'],
+  ['nd', 'nn', 'n'],
+  ['ks', 'x'],
+  ['s', 'z', 'c'],
+];
+
+const VOWELS = 'aeiouyæøå';
+const isConsonant = (char: string) => /\p{L}/u.test(char) && !VOWELS.includes(char);
+
+// Rewrites applied in order, so the longest spelling of a sound wins
+const KEY_REWRITES: [RegExp, string][] = [
+  [/aa|å/g, 'o'],
+  // Many students say "skjøpe" for "kjøpe", so kj and sj are one sound
+  [/skj|sj|ch|sk(?=[iy]|ei|øy)|kj|tj|k(?=[iy])/g, 'S'],
+  [/hv|w/g, 'v'],
+  [/gj|hj|dj|^lj|g(?=[iy]|ei|øy)/g, 'j'],
+  [/æ/g, 'e'],
+  [/[zc]/g, 's'],
+  [/x/g, 'ks'],
+  [/q/g, 'k'],
+  // Silent d ("kveld", "land", "gård", "god") and t ("huset", "det")
+  [/([lnr])d/g, '$1'],
+  [/([aeiouyøå])d$/g, '$1'],
+  [/et$/g, 'e'],
+];
+
+/**
+ * A key that is the same for words that sound alike: "kjæm" and "kjem", "hvis" and
+ * "vis", "skjelden" and "sjelden", "fotbal" and "fotball".
+ */
+export function phoneticKey(word: string): string {
+  let key = word.toLowerCase();
+  KEY_REWRITES.forEach(([pattern, replacement]) => {
+    key = key.replace(pattern, replacement);
+  });
+  // Double consonants sound like single ones
+  return key.replace(/(\p{L})\1+/gu, '$1');
+}
+
+/**
+ * Respellings of `word` that sound the same, for the dictionary to check. Each
+ * differs from the word in one place, which keeps the list short.
+ */
+export function soundAlikeVariants(word: string): string[] {
+  const lower = word.toLowerCase();
+  const variants = new Set<string>();
+  const replaceAt = (index: number, length: number, replacement: string) =>
+    variants.add(lower.slice(0, index) + replacement + lower.slice(index + length));
+
+  SOUND_ALTERNATIVES.forEach(group => {
+    group.forEach(spelling => {
+      for (let i = lower.indexOf(spelling); i !== -1; i = lower.indexOf(spelling, i + 1)) {
+        group.forEach(other => {
+          if (other !== spelling) replaceAt(i, spelling.length, other);
+        });
+      }
+    });
+  });
+
+  for (let i = 0; i < lower.length; i++) {
+    if (!isConsonant(lower[i])) continue;
+    // "fotbal" -> "fotball", "buss" -> "bus"
+    if (lower[i + 1] === lower[i]) replaceAt(i, 2, lower[i]);
+    else if (i > 0 && !isConsonant(lower[i - 1])) replaceAt(i, 1, lower[i] + lower[i]);
+  }
+
+  // A silent d or t left out or added at the end ("go" -> "god", "huse" -> "huset")
+  if (/[aeiouyæøå]$/.test(lower)) {
+    replaceAt(lower.length, 0, 'd');
+    replaceAt(lower.length, 0, 't');
+  } else if (/[dt]$/.test(lower)) {
+    replaceAt(lower.length - 1, 1, '');
+  }
+
+  variants.delete(lower);
+  const capitalized = word.charAt(0) !== lower.charAt(0);
+  return Array.from(variants, variant => capitalized ? variant.charAt(0).toUpperCase() + variant.slice(1) : variant);
+}
+
+/**
+ * Puts the candidates that sound like `word` first, keeping the order within each
+ * group, and removes duplicates.
+ */
+export function rankSuggestions(word: string, candidates: string[]): string[] {
+  const key = phoneticKey(word);
+  const unique = Array.from(new Set(candidates)).filter(candidate => candidate !== word);
+  return [
+    ...unique.filter(candidate => phoneticKey(candidate) === key),
+    ...unique.filter(candidate => phoneticKey(candidate) !== key),
+  ];
+}
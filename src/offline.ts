@@ -0,0 +1,66 @@
+/// <reference types="vite/client" />
+/**
+ * Offline support, page side.
+ * Registers the service worker (src/serviceWorker.ts) in production builds and reports
+ * whether the exam can be reloaded without network.
+ */
+
+export type OfflineStatus = 'unsupported' | 'preparing' | 'ready' | 'failed';
+
+// Messages between the page and the service worker
+export type OfflineRequest = { type: 'status' };
+export type OfflineReply = { type: 'status'; version: string; complete: boolean };
+
+// Next to index.html, so it controls the app also when it is not served from the root
+const SERVICE_WORKER_URL = `${import.meta.env.BASE_URL}sw.js`;
+
+/**
+ * Registers the service worker and calls `onStatus` as it gets ready.
+ * Returns a function that stops listening.
+ */
+export function registerServiceWorker(onStatus: (status: OfflineStatus) => void): () => void {
+  // The dev server and the single-file build (already offline) have no sw.js,
+  // and service workers need https or localhost
+  if (!import.meta.env.PROD || import.meta.env.MODE === 'singlefile' || !('serviceWorker' in navigator)) {
+    onStatus('unsupported');
+    return () => {};
+  }
+
+  let stopped = false;
+  const report = (status: OfflineStatus) => {
+    if (!stopped) onStatus(status);
+  };
+
+  const handleMessage = (event: MessageEvent<OfflineReply>) => {
+    if (event.data?.type !== 'status') return;
+    if (!event.data.complete) console.warn(`[Vestby Offline] Offline copy ${event.data.version} is incomplete`);
+    report(event.data.complete ? 'ready' : 'failed');
+  };
+  navigator.serviceWorker.addEventListener('message', handleMessage);
+
+  report('preparing');
+  navigator.serviceWorker.register(SERVICE_WORKER_URL)
+    .then(registration => {
+      // A first install that fails (e.g. the network drops halfway) never becomes active
+      registration.installing?.addEventListener('statechange', event => {
+        if ((event.target as ServiceWorker).state === 'redundant' && !registration.active) {
+          console.warn('[Vestby Offline] Service worker installation failed');
+          report('failed');
+        }
+      });
+      return navigator.serviceWorker.ready;
+    })
+    .then(registration => {
+      const request: OfflineRequest = { type: 'status' };
+      registration.active?.postMessage(request);
+    })
+    .catch(e => {
+      console.warn('[Vestby Offline] Could not register service worker:', e);
+      report('failed');
+    });
+
+  return () => {
+    stopped = true;
+    navigator.serviceWorker.removeEventListener('message', handleMessage);
+  };
+}
@@ -0,0 +1,179 @@
+/**
+ * Page breaks for the editor.
+ * The editor shows text at N px where the DOCX export writes N pt, so Word fits less
+ * on an A4 page than the editor page suggests. To predict where Word will break pages,
+ * the document is cloned into a hidden box with the DOCX content width (in pt-as-px)
+ * and the export's paragraph spacing, laid out there, and the breaks are mapped back
+ * onto the visible editor.
+ */
+
+import { PAGE_TWIPS } from './docxExport';
+
+export interface PaginationOptions {
+  baseFontSize: number;
+  baseFontFamily: string;
+}
+
+export interface Pagination {
+  pageCount: number;
+  // Where each new page starts, in px from the top of the editor element (unscaled)
+  breaks: number[];
+}
+
+// Content area of a DOCX page, in pt (= px in the measuring box)
+const CONTENT_WIDTH = (PAGE_TWIPS.width - 2 * PAGE_TWIPS.marginX) / 20;
+const CONTENT_HEIGHT = (PAGE_TWIPS.height - 2 * PAGE_TWIPS.marginY) / 20;
+
+// Word's "1.5 lines" is 1.5 times the font's own line height, which is about 1.15 × the size
+const WORD_LINE_HEIGHT = 1.5 * 1.15;
+
+// Block types Word keeps on the same page as the following paragraph
+const KEEP_WITH_NEXT = ['H1', 'H2', 'H3'];
+// Containers whose children are laid out as separate paragraphs
+const CONTAINERS = ['UL', 'OL', 'LI', 'BLOCKQUOTE'];
+// Blocks that are never split across pages
+const UNSPLITTABLE = ['HR', ...KEEP_WITH_NEXT];
+
+interface Leaf {
+  element: HTMLElement;
+  top: number;
+  height: number;
+  lineHeight: number;
+}
+
+interface Break {
+  leaf: number;
+  // Lines of the leaf that stay on the previous page
+  line: number;
+}
+
+// Same spacing as the DOCX export: 6pt after paragraphs, 12pt before headings, 36pt list indent
+const MEASURE_CSS = `
+.pagination-measure { position: absolute; left: -100000px; top: 0; visibility: hidden; pointer-events: none; }
+.pagination-measure .ProseMirror {
+  width: ${CONTENT_WIDTH}px; min-height: 0; padding: 0; margin: 0; box-shadow: none; background: none;
+  line-height: ${WORD_LINE_HEIGHT};
+}
+.pagination-measure .ProseMirror p { margin: 0 0 6px; }
+.pagination-measure .ProseMirror :is(h1, h2, h3) { margin: 12px 0 6px; line-height: ${WORD_LINE_HEIGHT}; }
+.pagination-measure .ProseMirror :is(ul, ol) { margin: 0; padding-left: 36px; }
+.pagination-measure .ProseMirror blockquote { margin: 0; padding-left: 28.35px; border: none; }
+.pagination-measure .ProseMirror hr { margin: 0 0 12px; border: none; height: ${WORD_LINE_HEIGHT}em; }
+`;
+
+function ensureStyles() {
+  if (document.getElementById('pagination-measure-styles')) return;
+  const style = document.createElement('style');
+  style.id = 'pagination-measure-styles';
+  style.textContent = MEASURE_CSS;
+  document.head.appendChild(style);
+}
+
+// Paragraph-level elements in document order, looking inside lists and quotes
+function collectLeaves(root: Element): HTMLElement[] {
+  const leaves: HTMLElement[] = [];
+  Array.from(root.children).forEach(child => {
+    if (!(child instanceof HTMLElement)) return;
+    if (CONTAINERS.includes(child.tagName)) leaves.push(...collectLeaves(child));
+    else leaves.push(child);
+  });
+  return leaves;
+}
+
+function measure(root: HTMLElement, elements: HTMLElement[]): Leaf[] {
+  const rootRect = root.getBoundingClientRect();
+  // getBoundingClientRect includes the zoom transform; offsetHeight does not
+  const scale = root.offsetHeight > 0 ? rootRect.height / root.offsetHeight : 1;
+
+  return elements.map(element => {
+    const rect = element.getBoundingClientRect();
+    const style = getComputedStyle(element);
+    let lineHeight = parseFloat(style.lineHeight);
+    if (!Number.isFinite(lineHeight) || lineHeight <= 0) {
+      lineHeight = parseFloat(style.fontSize) * WORD_LINE_HEIGHT;
+    }
+    return {
+      element,
+      top: (rect.top - rootRect.top) / scale,
+      height: rect.height / scale,
+      lineHeight: lineHeight || 1,
+    };
+  });
+}
+
+// Word-style breaking: paragraphs split between lines, headings move with the next paragraph
+function findBreaks(leaves: Leaf[]): Break[] {
+  const breaks: Break[] = [];
+  let pageTop = leaves.length > 0 ? leaves[0].top : 0;
+
+  for (let i = 0; i < leaves.length; i++) {
+    const leaf = leaves[i];
+    const lines = Math.max(1, Math.round(leaf.height / leaf.lineHeight));
+    let firstLine = 0;
+
+    while (leaf.top + leaf.height > pageTop + CONTENT_HEIGHT) {
+      const startTop = leaf.top + firstLine * leaf.lineHeight;
+      const fitting = Math.floor((pageTop + CONTENT_HEIGHT - leaf.top) / leaf.lineHeight);
+      const splittable = !UNSPLITTABLE.includes(leaf.element.tagName) && fitting > firstLine && fitting < lines;
+
+      if (splittable) {
+        breaks.push({ leaf: i, line: fitting });
+        pageTop = leaf.top + fitting * leaf.lineHeight;
+        firstLine = fitting;
+        continue;
+      }
+
+      // Already at the top of a page and still too tall: let it overflow
+      if (startTop <= pageTop) break;
+
+      const previous = leaves[i - 1];
+      if (firstLine === 0 && previous && KEEP_WITH_NEXT.includes(previous.element.tagName) &&
+        breaks[breaks.length - 1]?.leaf !== i - 1 && previous.top > pageTop) {
+        breaks.push({ leaf: i - 1, line: 0 });
+        pageTop = previous.top;
+      } else {
+        breaks.push({ leaf: i, line: firstLine });
+        pageTop = startTop;
+      }
+    }
+  }
+
+  return breaks;
+}
+
+/**
+ * Computes where the DOCX export will start new pages, as positions in the visible editor.
+ */
+export function paginate(editorElement: HTMLElement, options: PaginationOptions): Pagination {
+  ensureStyles();
+
+  const host = document.createElement('div');
+  host.className = 'pagination-measure';
+  host.setAttribute('aria-hidden', 'true');
+  const clone = editorElement.cloneNode(true) as HTMLElement;
+  clone.removeAttribute('contenteditable');
+  clone.style.fontSize = `${options.baseFontSize}px`;
+  clone.style.fontFamily = `"${options.baseFontFamily}", sans-serif`;
+  host.appendChild(clone);
+  document.body.appendChild(host);
+
+  try {
+    const measured = measure(clone, collectLeaves(clone));
+    const visible = measure(editorElement, collectLeaves(editorElement));
+    // Both lists come from the same DOM, so leaves line up by index
+    if (measured.length !== visible.length) return { pageCount: 1, breaks: [] };
+
+    const breaks = findBreaks(measured).map(({ leaf, line }) => {
+      const target = visible[leaf];
+      if (line === 0) return target.top;
+      // Lines wrap differently in the editor; keep the same share of the paragraph
+      const measuredLines = Math.max(1, Math.round(measured[leaf].height / measured[leaf].lineHeight));
+      const visibleLines = Math.max(1, Math.round(target.height / target.lineHeight));
+      return target.top + Math.round(line / measuredLines * visibleLines) * target.lineHeight;
+    });
+
+    return { pageCount: breaks.length + 1, breaks };
+  } finally {
+    host.remove();
+  }
+}
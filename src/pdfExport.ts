@@ -0,0 +1,435 @@
+/**
+ * Client-side PDF export.
+ * Walks the same TipTap JSON tree as the DOCX export and lays it out on A4 pages
+ * with pdf-lib: marks, font family/size, nested lists and 1.5 line spacing.
+ * OpenDyslexic is embedded; Arial and Verdana map to the built-in Helvetica.
+ */
+
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'pdf-lib';
+import fontkit from '@pdf-lib/fontkit';
+import type { JSONContent } from '@tiptap/core';
+import {
+  formatExportTimestamp, getHeaderParts, getHeadingLevel, HEADING_FONT_SIZES, type ExportMetadata
+} from './exportMetadata';
+// Data URLs in the single-file build, which cannot fetch files next to it
+import openDyslexicRegular from './assets/fonts/OpenDyslexic-Regular.otf?url';
+import openDyslexicBold from './assets/fonts/OpenDyslexic-Bold.otf?url';
+import openDyslexicItalic from './assets/fonts/OpenDyslexic-Italic.otf?url';
+
+export interface PdfExportOptions {
+  baseFontSize: number;
+  baseFontFamily: string;
+}
+
+// A4 in points, margins matching the editor page (2cm top/bottom, 2.5cm sides)
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN_X = 70.87;
+const MARGIN_Y = 56.69;
+const LINE_SPACING = 1.5;
+// Same as the DOCX export: 6pt after each paragraph, 36pt per list level with an 18pt hanging marker
+const PARAGRAPH_SPACING = 6;
+const LIST_INDENT = 36;
+const MARKER_HANGING = 18;
+// Headings get 12pt above them; quotes are indented 1cm like the DOCX Quote style
+const HEADING_SPACING = 12;
+const QUOTE_INDENT = 28.35;
+const HEADER_FONT_SIZE = 9;
+
+type FontVariant = 'regular' | 'bold' | 'italic' | 'boldItalic';
+
+interface PdfRun {
+  text: string;
+  font: PDFFont;
+  size: number;
+  underline: boolean;
+}
+
+interface PdfBlock {
+  runs: PdfRun[];
+  // -1 outside lists, otherwise the list nesting level
+  depth: number;
+  marker: string | null;
+  kind: 'text' | 'heading' | 'rule';
+  quote: boolean;
+}
+
+// Run formatting a block gives its text unless a mark says otherwise
+interface RunDefaults {
+  size?: number;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+interface LineSegment extends PdfRun {
+  width: number;
+}
+
+const BULLETS = ['•', '–'];
+
+const toRoman = (n: number) => {
+  const numerals: [number, string][] = [[10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i']];
+  let result = '';
+  numerals.forEach(([value, numeral]) => {
+    while (n >= value) {
+      result += numeral;
+      n -= value;
+    }
+  });
+  return result;
+};
+
+const toLetter = (n: number) => {
+  let result = '';
+  while (n > 0) {
+    n--;
+    result = String.fromCharCode(97 + (n % 26)) + result;
+    n = Math.floor(n / 26);
+  }
+  return result;
+};
+
+// Decimal, lower-letter, lower-roman, repeating, like the DOCX numbering levels
+const formatListNumber = (n: number, level: number) => {
+  const format = level % 3;
+  if (format === 1) return `${toLetter(n)}.`;
+  if (format === 2) return `${toRoman(n)}.`;
+  return `${n}.`;
+};
+
+/**
+ * Loads fonts on demand and falls back to '?' for characters a standard font cannot encode.
+ */
+class FontBook {
+  private pdf: PDFDocument;
+  private fonts = new Map<string, PDFFont>();
+  private encodable = new Map<PDFFont, Map<string, boolean>>();
+
+  constructor(pdf: PDFDocument) {
+    this.pdf = pdf;
+  }
+
+  async get(family: string, variant: FontVariant): Promise<PDFFont> {
+    const key = `${family}-${variant}`;
+    const cached = this.fonts.get(key);
+    if (cached) return cached;
+
+    let font: PDFFont;
+    if (family === 'OpenDyslexic') {
+      // There is no bold italic cut of OpenDyslexic; bold reads better than italic there
+      const url = variant === 'regular' ? openDyslexicRegular : variant === 'italic' ? openDyslexicItalic : openDyslexicBold;
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`Failed to fetch OpenDyslexic font (${variant})`);
+      font = await this.pdf.embedFont(await response.arrayBuffer());
+    } else {
+      const standard = {
+        regular: StandardFonts.Helvetica,
+        bold: StandardFonts.HelveticaBold,
+        italic: StandardFonts.HelveticaOblique,
+        boldItalic: StandardFonts.HelveticaBoldOblique,
+      }[variant];
+      font = await this.pdf.embedFont(standard);
+    }
+
+    this.fonts.set(key, font);
+    return font;
+  }
+
+  sanitize(text: string, font: PDFFont): string {
+    let cache = this.encodable.get(font);
+    if (!cache) {
+      cache = new Map();
+      this.encodable.set(font, cache);
+    }
+    let result = '';
+    for (const char of text) {
+      let ok = cache.get(char);
+      if (ok === undefined) {
+        try {
+          font.widthOfTextAtSize(char, 1);
+          ok = true;
+        } catch (e) {
+          ok = false;
+        }
+        cache.set(char, ok);
+      }
+      result += ok ? char : '?';
+    }
+    return result;
+  }
+}
+
+const parseFontSize = (value: unknown, fallback: number) => {
+  if (typeof value !== 'string') return fallback;
+  const size = parseInt(value.replace('px', ''));
+  return Number.isFinite(size) && size > 0 ? size : fallback;
+};
+
+async function getRuns(
+  paragraph: JSONContent,
+  fonts: FontBook,
+  options: PdfExportOptions,
+  defaults: RunDefaults = {},
+): Promise<PdfRun[]> {
+  const runs: PdfRun[] = [];
+
+  for (const child of paragraph.content || []) {
+    const marks = child.marks || [];
+    const textStyle = marks.find(m => m.type === 'textStyle')?.attrs || {};
+    const bold = defaults.bold || marks.some(m => m.type === 'bold');
+    const italic = defaults.italic || marks.some(m => m.type === 'italic');
+    const variant: FontVariant = bold && italic ? 'boldItalic' : bold ? 'bold' : italic ? 'italic' : 'regular';
+    const font = await fonts.get(textStyle.fontFamily || options.baseFontFamily, variant);
+    const size = parseFontSize(textStyle.fontSize, defaults.size || options.baseFontSize);
+
+    if (child.type === 'hardBreak') {
+      runs.push({ text: '\n', font, size, underline: false });
+    } else if (child.text) {
+      runs.push({
+        text: fonts.sanitize(child.text, font),
+        font,
+        size,
+        underline: marks.some(m => m.type === 'underline'),
+      });
+    }
+  }
+
+  return runs;
+}
+
+async function collectBlocks(
+  nodes: JSONContent[] | undefined,
+  fonts: FontBook,
+  options: PdfExportOptions,
+  depth = -1,
+  quote = false,
+): Promise<PdfBlock[]> {
+  const blocks: PdfBlock[] = [];
+
+  for (const node of nodes || []) {
+    if (node.type === 'paragraph') {
+      const runs = await getRuns(node, fonts, options, { italic: quote });
+      blocks.push({ runs, depth, marker: null, kind: 'text', quote });
+    } else if (node.type === 'heading') {
+      const size = HEADING_FONT_SIZES[getHeadingLevel(node)];
+      const runs = await getRuns(node, fonts, options, { size, bold: true, italic: quote });
+      blocks.push({ runs, depth, marker: null, kind: 'heading', quote });
+    } else if (node.type === 'blockquote') {
+      blocks.push(...await collectBlocks(node.content, fonts, options, depth, true));
+    } else if (node.type === 'horizontalRule') {
+      blocks.push({ runs: [], depth, marker: null, kind: 'rule', quote });
+    } else if (node.type === 'bulletList' || node.type === 'orderedList') {
+      const level = depth + 1;
+      const start = Number(node.attrs?.start) || 1;
+      const items = (node.content || []).filter(item => item.type === 'listItem');
+
+      for (const [index, item] of items.entries()) {
+        const itemBlocks = await collectBlocks(item.content, fonts, options, level, quote);
+        // The marker belongs to the first paragraph of the item, not to nested lists
+        if (itemBlocks[0] && itemBlocks[0].depth === level) {
+          itemBlocks[0].marker = node.type === 'bulletList'
+            ? BULLETS[level % BULLETS.length]
+            : formatListNumber(start + index, level);
+        }
+        blocks.push(...itemBlocks);
+      }
+    } else if (node.content) {
+      // Fallback: keep the text of unknown node types
+      blocks.push(...await collectBlocks(node.content, fonts, options, depth, quote));
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Greedy line breaking over styled runs. Words wider than a line are split by character.
+ */
+function breakLines(runs: PdfRun[], maxWidth: number): LineSegment[][] {
+  const lines: LineSegment[][] = [];
+  let line: LineSegment[] = [];
+  let lineWidth = 0;
+
+  const pushLine = () => {
+    // Trailing spaces don't count towards alignment
+    while (line.length > 0 && line[line.length - 1].text.trim() === '') line.pop();
+    lines.push(line);
+    line = [];
+    lineWidth = 0;
+  };
+
+  runs.forEach(run => {
+    if (run.text === '\n') {
+      pushLine();
+      return;
+    }
+
+    run.text.split(/(\s+)/).filter(part => part.length > 0).forEach(part => {
+      const isSpace = part.trim() === '';
+      if (isSpace && line.length === 0) return;
+
+      let width = run.font.widthOfTextAtSize(part, run.size);
+      if (lineWidth + width > maxWidth && line.length > 0 && !isSpace) {
+        pushLine();
+      }
+
+      let text = part;
+      while (width > maxWidth && !isSpace) {
+        // Split an overlong word at the last character that fits
+        let cut = text.length - 1;
+        while (cut > 1 && run.font.widthOfTextAtSize(text.slice(0, cut), run.size) > maxWidth - lineWidth) cut--;
+        const head = text.slice(0, cut);
+        line.push({ ...run, text: head, width: run.font.widthOfTextAtSize(head, run.size) });
+        pushLine();
+        text = text.slice(cut);
+        width = run.font.widthOfTextAtSize(text, run.size);
+      }
+
+      line.push({ ...run, text, width });
+      lineWidth += width;
+    });
+  });
+
+  pushLine();
+  return lines;
+}
+
+/**
+ * Builds the PDF for a TipTap document.
+ */
+export async function createPdfBlob(
+  content: JSONContent[],
+  metadata: ExportMetadata,
+  options: PdfExportOptions,
+): Promise<Blob> {
+  const pdf = await PDFDocument.create();
+  pdf.registerFontkit(fontkit);
+  const fonts = new FontBook(pdf);
+
+  const headerParts = getHeaderParts(metadata);
+  pdf.setTitle(headerParts.join(' – ') || 'Besvarelse');
+  if (metadata.name.trim()) pdf.setAuthor(metadata.name.trim());
+  pdf.setCreator('Vestby prøve');
+
+  const blocks = await collectBlocks(content, fonts, options);
+  const baseFont = await fonts.get(options.baseFontFamily, 'regular');
+
+  const pages: PDFPage[] = [];
+  let page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  pages.push(page);
+  let cursorY = PAGE_HEIGHT - MARGIN_Y;
+
+  const ensureSpace = (height: number) => {
+    if (cursorY - height < MARGIN_Y) {
+      page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      pages.push(page);
+      cursorY = PAGE_HEIGHT - MARGIN_Y;
+    }
+  };
+
+  blocks.forEach((block, blockIndex) => {
+    const quoteX = MARGIN_X + (block.quote ? QUOTE_INDENT : 0);
+    const textX = quoteX + (block.depth + 1) * LIST_INDENT;
+
+    if (block.kind === 'rule') {
+      const ruleHeight = options.baseFontSize * LINE_SPACING;
+      ensureSpace(ruleHeight);
+      page.drawLine({
+        start: { x: textX, y: cursorY - ruleHeight / 2 },
+        end: { x: PAGE_WIDTH - MARGIN_X, y: cursorY - ruleHeight / 2 },
+        thickness: 0.75,
+        color: rgb(0.61, 0.64, 0.69),
+      });
+      cursorY -= ruleHeight + PARAGRAPH_SPACING;
+      return;
+    }
+
+    // Space above headings, except at the top of a page
+    if (block.kind === 'heading' && blockIndex > 0 && cursorY < PAGE_HEIGHT - MARGIN_Y) {
+      cursorY -= HEADING_SPACING;
+    }
+
+    const lines = breakLines(block.runs, PAGE_WIDTH - MARGIN_X - textX);
+
+    // Keep a heading on the same page as the first line that follows it
+    if (block.kind === 'heading') {
+      const headingSize = block.runs.reduce((max, run) => Math.max(max, run.size), 0) || options.baseFontSize;
+      ensureSpace(lines.length * headingSize * LINE_SPACING + options.baseFontSize * LINE_SPACING);
+    }
+
+    lines.forEach((line, lineIndex) => {
+      const maxSize = line.reduce((max, seg) => Math.max(max, seg.size), 0) ||
+        block.runs[0]?.size || options.baseFontSize;
+      const lineHeight = maxSize * LINE_SPACING;
+      ensureSpace(lineHeight);
+
+      // Centre the glyphs in the 1.5 line box, baseline slightly above the bottom of the font box
+      const baseline = cursorY - lineHeight + (lineHeight - maxSize) / 2 + maxSize * 0.2;
+
+      if (lineIndex === 0 && block.marker) {
+        const markerFont = block.runs[0]?.font || baseFont;
+        page.drawText(fonts.sanitize(block.marker, markerFont), {
+          x: textX - MARKER_HANGING,
+          y: baseline,
+          size: maxSize,
+          font: markerFont,
+        });
+      }
+
+      let x = textX;
+      line.forEach(seg => {
+        page.drawText(seg.text, { x, y: baseline, size: seg.size, font: seg.font, color: rgb(0, 0, 0) });
+        if (seg.underline) {
+          page.drawLine({
+            start: { x, y: baseline - seg.size * 0.12 },
+            end: { x: x + seg.width, y: baseline - seg.size * 0.12 },
+            thickness: Math.max(0.5, seg.size / 18),
+            color: rgb(0, 0, 0),
+          });
+        }
+        x += seg.width;
+      });
+
+      if (block.quote) {
+        page.drawLine({
+          start: { x: quoteX - QUOTE_INDENT / 2, y: cursorY },
+          end: { x: quoteX - QUOTE_INDENT / 2, y: cursorY - lineHeight },
+          thickness: 2,
+          color: rgb(0.82, 0.84, 0.86),
+        });
+      }
+
+      cursorY -= lineHeight;
+    });
+
+    cursorY -= PARAGRAPH_SPACING;
+  });
+
+  // Header with the student's details on every page
+  const headerFont = await fonts.get('Arial', 'regular');
+  const headerLeft = fonts.sanitize(headerParts.join('  ·  '), headerFont);
+  const headerRight = formatExportTimestamp(new Date());
+  const headerY = PAGE_HEIGHT - MARGIN_Y / 2 - HEADER_FONT_SIZE / 2;
+  const gray = rgb(0.42, 0.45, 0.5);
+
+  pages.forEach(p => {
+    p.drawText(headerLeft, { x: MARGIN_X, y: headerY, size: HEADER_FONT_SIZE, font: headerFont, color: gray });
+    const rightWidth = headerFont.widthOfTextAtSize(headerRight, HEADER_FONT_SIZE);
+    p.drawText(headerRight, {
+      x: PAGE_WIDTH - MARGIN_X - rightWidth,
+      y: headerY,
+      size: HEADER_FONT_SIZE,
+      font: headerFont,
+      color: gray,
+    });
+    p.drawLine({
+      start: { x: MARGIN_X, y: headerY - 4 },
+      end: { x: PAGE_WIDTH - MARGIN_X, y: headerY - 4 },
+      thickness: 0.5,
+      color: gray,
+    });
+  });
+
+  const bytes = await pdf.save();
+  return new Blob([bytes as BlobPart], { type: 'application/pdf' });
+}
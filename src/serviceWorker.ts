@@ -0,0 +1,98 @@
+/**
+ * Service worker that keeps the exam working offline, across reloads.
+ * It precaches the built app, the spellcheck workers and the Harper binary, the
+ * dictionaries and the fonts. The file list and the version are filled in at build
+ * time by scripts/offline-precache.js.
+ *
+ * Each deployment gets its own cache. A new version installs in the background and
+ * takes over the next time the exam is opened, so a running exam never mixes files
+ * from two deployments; the old cache is removed then.
+ */
+
+import type { OfflineReply, OfflineRequest } from './offline';
+
+declare const __PRECACHE_MANIFEST__: { version: string; urls: string[] };
+
+const sw = self as unknown as ServiceWorkerGlobalScope;
+
+const CACHE_PREFIX = 'vestby-offline-';
+const { version, urls } = __PRECACHE_MANIFEST__;
+const CACHE_NAME = `${CACHE_PREFIX}${version}`;
+const INDEX_URL = new URL(`${import.meta.env.BASE_URL}index.html`, sw.location.href).href;
+const precached = new Set(urls.map(url => new URL(url, sw.location.href).href));
+
+sw.addEventListener('install', event => {
+  // addAll fails as a whole, so an installed version always has every file
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then(cache => cache.addAll(urls.map(url => new Request(url, { cache: 'reload' }))))
+  );
+});
+
+sw.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter(name => name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME)
+      .map(name => caches.delete(name)));
+    // Take over the page that installed us, so a reload right away works offline
+    await sw.clients.claim();
+  })());
+});
+
+async function cacheFirst(request: Request | string): Promise<Response> {
+  const cached = await caches.match(request, { cacheName: CACHE_NAME });
+  return cached ?? fetch(request);
+}
+
+// Files outside the precache (exam profiles) come from the network, with the last copy as fallback
+async function networkFirst(request: Request): Promise<Response> {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(request, response.clone());
+    return response;
+  } catch (e) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw e;
+  }
+}
+
+sw.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (url.origin !== sw.location.origin) return;
+
+  // The app checks which dictionaries exist with HEAD requests, also when offline
+  if (request.method === 'HEAD' && precached.has(url.origin + url.pathname)) {
+    event.respondWith(cacheFirst(url.origin + url.pathname)
+      .then(response => new Response(null, { status: response.status, headers: response.headers })));
+    return;
+  }
+  if (request.method !== 'GET') return;
+
+  if (request.mode === 'navigate') {
+    // Every page is the app; ?session= and ?profile= are read by the app itself
+    event.respondWith(cacheFirst(INDEX_URL));
+  } else if (precached.has(url.origin + url.pathname)) {
+    event.respondWith(cacheFirst(url.origin + url.pathname));
+  } else {
+    event.respondWith(networkFirst(request));
+  }
+});
+
+async function precacheComplete(): Promise<boolean> {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = new Set((await cache.keys()).map(request => request.url));
+  return Array.from(precached).every(url => cached.has(url));
+}
+
+sw.addEventListener('message', (event: ExtendableMessageEvent) => {
+  const message = event.data as OfflineRequest;
+  if (message?.type !== 'status') return;
+  event.waitUntil(precacheComplete().then(complete => {
+    const reply: OfflineReply = { type: 'status', version, complete };
+    event.source?.postMessage(reply);
+  }));
+});
@@ -0,0 +1,155 @@
+/**
+ * Exam sessions.
+ * Everything a student stores on the machine (document, snapshots, export details,
+ * ignored lints) lives in the namespace of the active exam code, so several
+ * students can share a computer without seeing each other's text.
+ */
+
+import { openDb, transactionDone, DOCUMENT_STORE, SNAPSHOT_STORE } from './browserDb';
+
+export interface ExamSession {
+  code: string;
+  // Teacher option (URL): remove the session from this machine once the file has been exported
+  clearAfterExport: boolean;
+}
+
+// URL parameters a teacher can put in the SEB start URL, e.g. ?session=10A-ENG&clearAfterExport=1
+const SESSION_PARAM = 'session';
+const CLEAR_AFTER_EXPORT_PARAM = 'clearAfterExport';
+// Remembers the chosen code for reloads within the same window
+const ACTIVE_SESSION_KEY = 'vestby-prove-active-session';
+const KEY_PREFIX = 'vestby-prove';
+// Where the text was kept before exam sessions existed
+const LEGACY_CONTENT_KEY = 'vestby-prove-content';
+
+let activeSession: ExamSession | null = null;
+// Cleared in this window; late writes (a pending snapshot) must not bring them back
+const clearedSessions = new Set<string>();
+
+/**
+ * Uppercases and strips anything but letters, digits, '-' and '_'.
+ * Returns null if nothing usable is left.
+ */
+export function normalizeSessionCode(input: string): string | null {
+  const code = input.trim().toUpperCase().replace(/[^\p{L}\p{N}_-]/gu, '').slice(0, 40);
+  return code.length > 0 ? code : null;
+}
+
+function readUrlParams() {
+  try {
+    return new URLSearchParams(window.location.search);
+  } catch (e) {
+    return new URLSearchParams();
+  }
+}
+
+function isClearAfterExportRequested() {
+  const value = readUrlParams().get(CLEAR_AFTER_EXPORT_PARAM);
+  return value === '1' || value === 'true';
+}
+
+/**
+ * Session given by the URL, or the one already started in this window.
+ */
+export function getInitialSession(): ExamSession | null {
+  const fromUrl = readUrlParams().get(SESSION_PARAM);
+  let code = fromUrl ? normalizeSessionCode(fromUrl) : null;
+
+  if (!code) {
+    try {
+      code = sessionStorage.getItem(ACTIVE_SESSION_KEY);
+    } catch (e) {
+      code = null;
+    }
+  }
+
+  return code ? { code, clearAfterExport: isClearAfterExportRequested() } : null;
+}
+
+export function createSession(code: string): ExamSession {
+  return { code, clearAfterExport: isClearAfterExportRequested() };
+}
+
+// There is no telling which student wrote the text kept before exam sessions existed,
+// so it is removed rather than shown in someone else's session
+function discardLegacyContent() {
+  try {
+    if (localStorage.getItem(LEGACY_CONTENT_KEY) === null) return;
+    localStorage.removeItem(LEGACY_CONTENT_KEY);
+    console.warn('Removed text stored before exam sessions existed.');
+  } catch (e) {
+    console.warn('Failed to remove text from before exam sessions:', e);
+  }
+}
+
+/**
+ * Has to be called before any store is used.
+ */
+export function setActiveSession(session: ExamSession | null) {
+  activeSession = session;
+  discardLegacyContent();
+  // Starting a cleared code again begins a new session
+  if (session) clearedSessions.delete(session.code);
+  try {
+    if (session) {
+      sessionStorage.setItem(ACTIVE_SESSION_KEY, session.code);
+    } else {
+      sessionStorage.removeItem(ACTIVE_SESSION_KEY);
+    }
+  } catch (e) {
+    console.warn('Failed to remember active session:', e);
+  }
+}
+
+export function getActiveSessionCode(): string {
+  if (!activeSession) throw new Error('No active exam session');
+  return activeSession.code;
+}
+
+/**
+ * localStorage key for the given item in the active session.
+ */
+export function storageKey(item: string, code = getActiveSessionCode()): string {
+  return `${KEY_PREFIX}:${code}:${item}`;
+}
+
+export function isSessionCleared(code: string): boolean {
+  return clearedSessions.has(code);
+}
+
+/**
+ * Removes every trace of a session from this machine.
+ */
+export async function clearSession(code: string): Promise<void> {
+  clearedSessions.add(code);
+  try {
+    const prefix = `${KEY_PREFIX}:${code}:`;
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && key.startsWith(prefix)) keys.push(key);
+    }
+    keys.forEach(key => localStorage.removeItem(key));
+  } catch (e) {
+    console.error('Failed to clear session from localStorage:', e);
+  }
+
+  const db = await openDb();
+  if (!db) return;
+
+  try {
+    const tx = db.transaction([DOCUMENT_STORE, SNAPSHOT_STORE], 'readwrite');
+    tx.objectStore(DOCUMENT_STORE).delete(code);
+    const snapshots = tx.objectStore(SNAPSHOT_STORE);
+    const cursorRequest = snapshots.openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      if (cursor.value.session === code) cursor.delete();
+      cursor.continue();
+    };
+    await transactionDone(tx);
+  } catch (e) {
+    console.error('Failed to clear session from IndexedDB:', e);
+  }
+}
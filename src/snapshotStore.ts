@@ -0,0 +1,135 @@
+/**
+ * Rolling crash-recovery snapshots of the document.
+ * Versions are kept in IndexedDB, with a smaller localStorage ring as fallback
+ * for browsers (or SEB configurations) where IndexedDB is unavailable.
+ */
+
+import { openDb, requestToPromise, transactionDone, SNAPSHOT_STORE } from './browserDb';
+import { getActiveSessionCode, isSessionCleared, storageKey } from './session';
+
+export interface Snapshot {
+  id: number;
+  session: string;
+  timestamp: number;
+  html: string;
+  wordCount: number;
+}
+
+// Minimum time between two automatic snapshots
+export const SNAPSHOT_INTERVAL_MS = 30 * 1000;
+// How many versions we keep before pruning the oldest
+const MAX_SNAPSHOTS = 60;
+// localStorage is small, so the fallback ring is kept shorter
+const MAX_FALLBACK_SNAPSHOTS = 10;
+
+function readFallback(session: string): Snapshot[] {
+  try {
+    const raw = localStorage.getItem(storageKey('snapshots', session));
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    console.error('[Vestby Snapshots] Failed to read fallback snapshots:', e);
+    return [];
+  }
+}
+
+function writeFallback(session: string, snapshots: Snapshot[]) {
+  // Drop the oldest versions until the ring fits in the quota
+  let kept = snapshots.slice(-MAX_FALLBACK_SNAPSHOTS);
+  while (kept.length > 0) {
+    try {
+      localStorage.setItem(storageKey('snapshots', session), JSON.stringify(kept));
+      return;
+    } catch (e) {
+      kept = kept.slice(1);
+    }
+  }
+  console.error('[Vestby Snapshots] Could not store any fallback snapshot.');
+}
+
+/**
+ * Returns the stored snapshots of a session, newest first.
+ */
+export async function listSnapshots(session = getActiveSessionCode()): Promise<Snapshot[]> {
+  const db = await openDb();
+  if (!db) return readFallback(session).reverse();
+
+  try {
+    const store = db.transaction(SNAPSHOT_STORE, 'readonly').objectStore(SNAPSHOT_STORE);
+    const snapshots = await requestToPromise(store.getAll() as IDBRequest<Snapshot[]>);
+    return snapshots
+      .filter(s => s.session === session)
+      .sort((a, b) => b.timestamp - a.timestamp);
+  } catch (e) {
+    console.error('[Vestby Snapshots] Failed to list snapshots:', e);
+    return readFallback(session).reverse();
+  }
+}
+
+/**
+ * Stores a new snapshot and prunes the oldest ones.
+ * Identical consecutive content is not stored twice, and cleared sessions get nothing.
+ */
+export async function saveSnapshot(html: string, wordCount: number, session = getActiveSessionCode()): Promise<void> {
+  if (isSessionCleared(session)) return;
+  const db = await openDb();
+  const timestamp = Date.now();
+  if (isSessionCleared(session)) return;
+
+  if (!db) {
+    const snapshots = readFallback(session);
+    const last = snapshots[snapshots.length - 1];
+    if (last && last.html === html) return;
+    const id = last ? last.id + 1 : 1;
+    writeFallback(session, [...snapshots, { id, session, timestamp, html, wordCount }]);
+    return;
+  }
+
+  try {
+    const existing = await listSnapshots(session);
+    if ((existing[0] && existing[0].html === html) || isSessionCleared(session)) return;
+
+    const tx = db.transaction(SNAPSHOT_STORE, 'readwrite');
+    const store = tx.objectStore(SNAPSHOT_STORE);
+    store.add({ session, timestamp, html, wordCount });
+    existing.slice(MAX_SNAPSHOTS - 1).forEach(old => store.delete(old.id));
+
+    await transactionDone(tx);
+  } catch (e) {
+    console.error('[Vestby Snapshots] Failed to save snapshot, using localStorage:', e);
+    const snapshots = readFallback(session);
+    const id = snapshots.length ? snapshots[snapshots.length - 1].id + 1 : 1;
+    writeFallback(session, [...snapshots, { id, session, timestamp, html, wordCount }]);
+  }
+}
+
+let lastSnapshotAt = 0;
+let pendingSnapshot: ReturnType<typeof setTimeout> | null = null;
+let pendingContent: { html: string; wordCount: number; session: string } | null = null;
+
+/**
+ * Throttled snapshot for use on every editor update.
+ * Writes at most once per SNAPSHOT_INTERVAL_MS and always flushes the latest content.
+ */
+export function scheduleSnapshot(html: string, wordCount: number) {
+  pendingContent = { html, wordCount, session: getActiveSessionCode() };
+  if (pendingSnapshot) return;
+
+  const wait = Math.max(0, lastSnapshotAt + SNAPSHOT_INTERVAL_MS - Date.now());
+  pendingSnapshot = setTimeout(() => {
+    pendingSnapshot = null;
+    if (!pendingContent) return;
+    const { html, wordCount, session } = pendingContent;
+    pendingContent = null;
+    lastSnapshotAt = Date.now();
+    saveSnapshot(html, wordCount, session);
+  }, wait);
+}
+
+/**
+ * Drops the snapshot that scheduleSnapshot is waiting to write, e.g. before the session is cleared.
+ */
+export function cancelScheduledSnapshot() {
+  if (pendingSnapshot) clearTimeout(pendingSnapshot);
+  pendingSnapshot = null;
+  pendingContent = null;
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { Schema, type Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { getTextMap, offsetToPos } from './textMap';
+
+const schema = new Schema({
+  nodes: {
+    doc: { content: 'block+' },
+    paragraph: { group: 'block', content: 'inline*' },
+    heading: { group: 'block', content: 'inline*' },
+    blockquote: { group: 'block', content: 'block+' },
+    horizontalRule: { group: 'block' },
+    text: { group: 'inline' },
+    hardBreak: { group: 'inline', inline: true },
+    image: { group: 'inline', inline: true, atom: true },
+  },
+});
+
+const node = (type: string, ...content: ProseMirrorNode[]) => schema.node(type, null, content);
+const text = (value: string) => schema.text(value);
+
+// The document text between two positions; leaf nodes read as newlines
+const docText = (doc: ProseMirrorNode, from: number, to: number) => doc.textBetween(from, to, '\n', '\n');
+
+describe('getTextMap', () => {
+  it('separates blocks with a newline, also across nested and empty blocks', () => {
+    const doc = node('doc',
+      node('heading', text('Tittel')),
+      node('blockquote', node('paragraph', text('Sitat'))),
+      node('horizontalRule'),
+      node('paragraph'),
+      node('paragraph', text('Slutt')));
+    const map = getTextMap(doc);
+    expect(map.text).toBe('Tittel\nSitat\n\nSlutt');
+    expect(map.blocks.map(block => block.offset)).toEqual([0, 7, 13, 14]);
+  });
+
+  it('reads a hard break as a newline and keeps the size of other inline nodes', () => {
+    const doc = node('doc', node('paragraph', text('ab'), node('hardBreak'), node('image'), text('cd')));
+    expect(getTextMap(doc).text).toBe('ab\n\uFFFCcd');
+  });
+
+  it('is reused for the same document', () => {
+    const doc = node('doc', node('paragraph', text('ab')));
+    expect(getTextMap(doc)).toBe(getTextMap(doc));
+  });
+});
+
+describe('offsetToPos', () => {
+  const doc = node('doc',
+    node('paragraph', text('Hei du')),
+    node('blockquote', node('paragraph', text('Ja'))),
+    node('paragraph', text('ab'), node('hardBreak'), node('image'), text('cd')));
+  const map = getTextMap(doc);
+  // Text offset of a span in the map, and the document text it should cover
+  const span = (start: number, end: number) => docText(doc, offsetToPos(map, start), offsetToPos(map, end, true));
+
+  it('maps spans inside a block', () => {
+    expect(span(0, 3)).toBe('Hei');
+    expect(span(4, 6)).toBe('du');
+  });
+
+  it('puts an offset on a block boundary at the start of the next block', () => {
+    // 7 is the first character after the separator following "Hei du"
+    expect(offsetToPos(map, 7)).toBe(map.blocks[1].pos);
+    expect(span(7, 9)).toBe('Ja');
+  });
+
+  it('ends a span that ends on a block boundary in the block before it', () => {
+    expect(offsetToPos(map, 6, true)).toBe(map.blocks[0].pos + 6);
+    expect(span(4, 6)).toBe('du');
+    // The separator itself belongs to no block
+    expect(offsetToPos(map, 7, true)).toBe(map.blocks[0].pos + 6);
+  });
+
+  it('keeps positions after a hard break and a non-text inline node', () => {
+    const start = map.blocks[2].offset;
+    expect(span(start, start + 2)).toBe('ab');
+    expect(span(start + 4, start + 6)).toBe('cd');
+    expect(span(start, start + 6)).toBe('ab\n\ncd');
+  });
+
+  it('clamps offsets outside the text', () => {
+    expect(offsetToPos(map, -5)).toBe(map.blocks[0].pos);
+    expect(offsetToPos(map, 1000, true)).toBe(map.blocks[2].pos + map.blocks[2].text.length);
+  });
+
+  it('maps into an empty document', () => {
+    expect(offsetToPos(getTextMap(node('doc', node('horizontalRule'))), 3)).toBe(1);
+  });
+});
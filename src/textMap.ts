@@ -0,0 +1,88 @@
+/**
+ * Plain-text view of the document for the spellcheckers and the sidebar.
+ * Paragraphs and headings are separated by a newline, so the last word of one block
+ * and the first word of the next stay apart, and a hard break reads as a newline too.
+ * Inside a block every character is then exactly one document position, so a text
+ * offset maps to a position with a binary search over the blocks.
+ * The map is built once per document and reused until the document changes.
+ */
+
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+
+export interface TextSegment {
+  text: string;
+  // Where the segment starts in the text map
+  offset: number;
+}
+
+export interface TextBlock extends TextSegment {
+  // Document position of the block's first character
+  pos: number;
+}
+
+export interface TextMap {
+  text: string;
+  // Paragraphs and headings in document order
+  blocks: TextBlock[];
+}
+
+const BLOCK_SEPARATOR = '\n';
+
+// Inline nodes other than text keep their size so positions still line up
+const inlineText = (node: ProseMirrorNode) => {
+  if (node.isText) return node.text || '';
+  if (node.type.name === 'hardBreak') return '\n';
+  return '\uFFFC'.repeat(node.nodeSize);
+};
+
+const textMaps = new WeakMap<ProseMirrorNode, TextMap>();
+
+function buildTextMap(doc: ProseMirrorNode): TextMap {
+  const blocks: TextBlock[] = [];
+  let offset = 0;
+
+  doc.descendants((node, pos) => {
+    if (!node.isTextblock) return true;
+    if (blocks.length > 0) offset += BLOCK_SEPARATOR.length;
+    let text = '';
+    node.forEach(child => {
+      text += inlineText(child);
+    });
+    blocks.push({ text, offset, pos: pos + 1 });
+    offset += text.length;
+    return false;
+  });
+
+  return { text: blocks.map(block => block.text).join(BLOCK_SEPARATOR), blocks };
+}
+
+export function getTextMap(doc: ProseMirrorNode): TextMap {
+  let map = textMaps.get(doc);
+  if (!map) {
+    map = buildTextMap(doc);
+    textMaps.set(doc, map);
+  }
+  return map;
+}
+
+/**
+ * Document position of a text offset. With `isEnd`, an offset on a block boundary
+ * belongs to the end of the block before it, as the end of a span should.
+ */
+export function offsetToPos(map: TextMap, offset: number, isEnd = false): number {
+  const { blocks } = map;
+  if (blocks.length === 0) return 1;
+
+  // Last block that starts before the offset (or at it, unless it is a span end)
+  let low = 0;
+  let high = blocks.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    const before = isEnd ? blocks[mid].offset < offset : blocks[mid].offset <= offset;
+    if (before) low = mid;
+    else high = mid - 1;
+  }
+
+  const block = blocks[low];
+  return block.pos + Math.min(Math.max(0, offset - block.offset), block.text.length);
+}
@@ -0,0 +1,53 @@
+/**
+ * Plain-text backup export.
+ * Blocks are separated by blank lines, which is what the TXT import expects.
+ * Structure that plain text cannot show is written the way people type it:
+ * "#" before headings, "> " before quoted lines, "- " and "1. " before list items.
+ */
+
+import type { JSONContent } from '@tiptap/core';
+import { getHeadingLevel } from './exportMetadata';
+
+const inlineText = (node: JSONContent) =>
+  (node.content || []).map(child => child.type === 'hardBreak' ? '\n' : child.text || '').join('');
+
+const prefixLines = (text: string, first: string, rest: string = first) =>
+  text.split('\n').map((line, i) => (i === 0 ? first : rest) + line).join('\n');
+
+function collectBlocks(nodes: JSONContent[] | undefined): string[] {
+  const blocks: string[] = [];
+
+  (nodes || []).forEach(node => {
+    if (node.type === 'paragraph') {
+      blocks.push(inlineText(node));
+    } else if (node.type === 'heading') {
+      blocks.push(`${'#'.repeat(getHeadingLevel(node))} ${inlineText(node)}`);
+    } else if (node.type === 'blockquote') {
+      blocks.push(...collectBlocks(node.content).map(block => prefixLines(block, '> ')));
+    } else if (node.type === 'horizontalRule') {
+      blocks.push('* * *');
+    } else if (node.type === 'bulletList' || node.type === 'orderedList') {
+      const start = Number(node.attrs?.start) || 1;
+      // A list is one block; items sit on consecutive lines
+      const items = (node.content || []).filter(item => item.type === 'listItem').map((item, index) => {
+        const marker = node.type === 'bulletList' ? '- ' : `${start + index}. `;
+        const indent = ' '.repeat(marker.length);
+        return collectBlocks(item.content)
+          .map((block, i) => prefixLines(block, i === 0 ? marker : indent, indent))
+          .join('\n');
+      });
+      blocks.push(items.join('\n'));
+    } else if (node.content) {
+      blocks.push(...collectBlocks(node.content));
+    }
+  });
+
+  return blocks;
+}
+
+/**
+ * Renders a TipTap document's top-level content as plain text.
+ */
+export function createPlainText(content: JSONContent[]): string {
+  return collectBlocks(content).join('\n\n');
+}
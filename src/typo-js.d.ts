@@ -12,5 +12,7 @@ declare module 'typo-js' {
         );
         check(word: string): boolean;
         suggest(word: string, limit?: number): string[];
+        // Sets the instance's properties, e.g. from a pre-expanded dictionary
+        load(obj: Record<string, unknown>): this;
     }
 }
@@ -0,0 +1,11 @@
+/**
+ * The spellcheck workers, as separate files next to the app.
+ * The single-file build replaces this module with inlineWorkers.ts (see
+ * scripts/single-file.js), because a page opened from file:// cannot start them.
+ */
+
+export const createHarperWorker = () =>
+  new Worker(new URL('./harper.worker.ts', import.meta.url), { type: 'module' });
+
+export const createHunspellWorker = () =>
+  new Worker(new URL('./hunspell.worker.ts', import.meta.url), { type: 'module' });
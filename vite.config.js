@@ -2,22 +2,32 @@ import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/postcss'
 import autoprefixer from 'autoprefixer'
+import offlinePrecache from './scripts/offline-precache.js'
+import singleFile, { singleFileModules, SINGLE_FILE_MODE } from './scripts/single-file.js'
 
 // https://vite.dev/config/
-export default defineConfig({
-  plugins: [react()],
-  css: {
-    postcss: {
-      plugins: [
-        tailwindcss(),
-        autoprefixer(),
-      ],
+export default defineConfig(({ mode }) => {
+  // `vite build --mode singlefile` builds one HTML file that runs from file:// (scripts/single-file.js)
+  const isSingleFile = mode === SINGLE_FILE_MODE
+
+  return {
+    plugins: isSingleFile
+      ? [react(), singleFileModules(), singleFile()]
+      : [react(), offlinePrecache()],
+    css: {
+      postcss: {
+        plugins: [
+          tailwindcss(),
+          autoprefixer(),
+        ],
+      },
+    },
+    worker: {
+      format: 'es',
+      plugins: () => isSingleFile ? [singleFileModules()] : [],
     },
-  },
-  worker: {
-    format: 'es',
-  },
-  optimizeDeps: {
-    exclude: ['harper.js']
+    optimizeDeps: {
+      exclude: ['harper.js']
+    }
   }
 })